@@ -0,0 +1,21 @@
+/**
+ * Build Environment (SDK Shim)
+ *
+ * The profile selected at build time from environments.json
+ * (`webpack --env profile=staging`; default: production for
+ * `--mode production`, local otherwise). Webpack injects only what the
+ * shim needs - the domain lock list stays in the build config.
+ */
+
+export interface Environment {
+  /** Profile name: production, staging, local */
+  name: string;
+  /** GameBox origins allowed to command the game ('https://*.host' matches subdomains) */
+  origins: string[];
+  /** Base64 SPKI P-256 key for SDK_ORIGIN_GRANT signatures; null disables grants */
+  originGrantKey: string | null;
+}
+
+declare const __SDK_ENVIRONMENT__: Environment;
+
+export const ENVIRONMENT: Environment = __SDK_ENVIRONMENT__;
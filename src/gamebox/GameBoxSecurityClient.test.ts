@@ -0,0 +1,155 @@
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { startWorker } from '../test/worker';
+import { GameBoxSecurityClient } from './GameBoxSecurityClient';
+import { Capability, ProtocolVersion } from '../worker/types';
+import { seedFromNonce } from '../worker/sampling';
+
+const GAME_ORIGIN = 'https://game.wam.app';
+const META = { screenW: 390, screenH: 844, dpr: 3, orientation: 'portrait', platform: 'ios', touchCapable: true };
+
+describe('GameBoxSecurityClient', () => {
+  let iframe: HTMLIFrameElement;
+  let worker: Worker;
+
+  before(async () => {
+    installDom();
+    worker = await startWorker();
+    iframe = document.createElement('iframe');
+    document.body.appendChild(iframe);
+  });
+
+  after(() => {
+    mock.restoreAll();
+    iframe.remove();
+  });
+
+  // Game → GameBox, as a shim message arrives on the GameBox window
+  const fromShim = (data: Record<string, unknown>) =>
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { controller: '_digitapSecurity', ...data },
+      origin: GAME_ORIGIN,
+      source: iframe.contentWindow,
+    }));
+
+  /**
+   * A pre-negotiation (v1) shim: no version or capabilities, no requestId
+   * echo, no thumbnail or untrusted count.
+   */
+  const installLegacyShim = (requests: Record<string, any>[] = []) => {
+    mock.method(iframe.contentWindow!, 'postMessage', (message: Record<string, any>) => {
+      requests.push(message);
+      setTimeout(() => {
+        if (message.type === 'SDK_SESSION_INIT') {
+          fromShim({ type: 'SDK_SESSION_INIT_ACK', meta: META, ts: Date.now() });
+        } else if (message.type === 'SDK_CHECKPOINT_REQUEST') {
+          const events = [{ t: 12.5, x: 100, y: 200, e: 0 }, { t: 90, x: 100, y: 200, e: 2 }];
+          fromShim({
+            type: 'SDK_CHECKPOINT_RESPONSE',
+            events,
+            pixels: null,
+            eventCount: events.length,
+            screenW: 390,
+            screenH: 844,
+          });
+        }
+      });
+    });
+  };
+
+  it('runs a full session against a shim that sends no version', async () => {
+    installLegacyShim();
+    const client = new GameBoxSecurityClient({ iframe, worker, timeoutMs: 1000, retries: 0 });
+    const errors: Error[] = [];
+    client.on('error', error => errors.push(error));
+
+    try {
+      await client.connect();
+      fromShim({ type: 'SDK_LOADED', ts: Date.now() });
+
+      const started = await client.startSession({ sessionId: 'legacy-session' });
+      assert.deepEqual(started.protocol, { protocolVersion: ProtocolVersion.V1, capabilities: [] });
+      assert.deepEqual(started.meta, META);
+
+      const result = await client.checkpoint({ nonceW: '0x' + '11'.repeat(32), score: 10, canvas: false });
+      assert.equal(result.windowIndex, 0);
+      assert.equal(result.eventCount, 2);
+
+      const final = await client.finalize(10);
+      assert.match(final.finalHash, /^0x[0-9a-f]{64}$/);
+      assert.deepEqual(errors, []);
+    } finally {
+      client.destroy();
+    }
+  });
+
+  it('seeds canvas sampling from the window nonce, not the window index', async () => {
+    const requests: Record<string, any>[] = [];
+    installLegacyShim(requests);
+    const client = new GameBoxSecurityClient({ iframe, worker, timeoutMs: 1000, retries: 0 });
+    const nonces = ['0x' + '21'.repeat(32), '0x' + '22'.repeat(32)];
+
+    try {
+      await client.connect();
+      fromShim({ type: 'SDK_LOADED', ts: Date.now() });
+      await client.startSession({ sessionId: 'seed-session' });
+      for (const nonceW of nonces) await client.checkpoint({ nonceW, score: 1 });
+
+      const seeds = requests.filter(m => m.type === 'SDK_CHECKPOINT_REQUEST').map(m => m.seed);
+      assert.deepEqual(seeds, nonces.map(seedFromNonce));
+      assert.notEqual(seeds[0], seeds[1]);
+    } finally {
+      client.destroy();
+    }
+  });
+
+  it('falls back to V1 soon when the Worker never answers NEGOTIATE', { timeout: 2000 }, async () => {
+    const silent = {
+      addEventListener: () => {},
+      removeEventListener: () => {},
+      postMessage: () => {},
+      terminate: () => {},
+    } as unknown as Worker;
+    const client = new GameBoxSecurityClient({ iframe, worker: silent, negotiateTimeoutMs: 50 });
+
+    try {
+      assert.deepEqual(await client.connect(), { protocolVersion: ProtocolVersion.V1, capabilities: [] });
+    } finally {
+      client.destroy();
+    }
+  });
+
+  it('sends a new port with a session init resent after a lost ACK', { timeout: 4000 }, async () => {
+    const ports: MessagePort[] = [];
+    mock.method(iframe.contentWindow!, 'postMessage', (message: Record<string, any>, _origin: string, transfer: MessagePort[] = []) => {
+      if (message.type !== 'SDK_SESSION_INIT') return;
+      ports.push(...transfer);
+      // The shim takes every port, but the ACK on the first one is lost
+      if (ports.length === 2) {
+        ports[1].postMessage({
+          controller: '_digitapSecurity', type: 'SDK_SESSION_INIT_ACK', requestId: message.requestId,
+          meta: META, ts: Date.now(), protocolVersion: message.protocolVersion, capabilities: message.capabilities,
+        });
+      }
+    });
+    const client = new GameBoxSecurityClient({ iframe, worker, timeoutMs: 300, retries: 1 });
+
+    try {
+      await client.connect();
+      fromShim({
+        type: 'SDK_LOADED', ts: Date.now(), protocolVersion: ProtocolVersion.V2,
+        capabilities: [Capability.CHANNEL, Capability.REQUEST_ID],
+      });
+
+      const started = await client.startSession({ sessionId: 'lost-ack-session' });
+      assert.equal(ports.length, 2);
+      assert.notEqual(ports[0], ports[1]);
+      assert.equal(client.channelOpen, true);
+      assert.ok(started.protocol.capabilities.includes(Capability.CHANNEL));
+    } finally {
+      client.destroy();
+      ports.forEach(port => port.close());
+    }
+  });
+});
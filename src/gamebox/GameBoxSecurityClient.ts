@@ -0,0 +1,724 @@
+/**
+ * GameBoxSecurityClient (GameBox)
+ *
+ * The GameBox half of the security protocol, so every integrator runs the
+ * same loop instead of hand-writing it from the integration guide:
+ *   1. Owns the game iframe listener and the Security Worker
+ *   2. Negotiates protocol version and capabilities with both, and moves
+ *      shim traffic to a private MessagePort at the first SDK_SESSION_INIT
+ *   3. Turns each request/reply pair into a promise (startSession,
+ *      checkpoint, finalize, ...), one round trip at a time, matching shim
+ *      replies by requestId and windowIndex and retrying lost ones
+ *   4. Emits typed events for results, game messages and raw traffic
+ *
+ * Backend calls stay with the integrator: checkpoint() takes the nonce the
+ * backend issued for the window and resolves with what to submit.
+ *
+ * Runs on the GameBox page. Not part of either SDK bundle - import it from
+ * source, like verifier.ts.
+ */
+
+import type {
+  InputDigestVersion,
+  ProtocolHello,
+  ScoreRules,
+  WorkerInboundMessage,
+  WorkerOutboundMessage,
+  WorkerNegotiated,
+  WorkerSessionReady,
+  WorkerCheckpointResult,
+  WorkerFinalHashResult,
+  WorkerTranscriptResult,
+  WorkerWatermarkData,
+} from '../worker/types';
+import { Capability, ProtocolVersion } from '../worker/types';
+import { PROTOCOL_VERSION, hasCapability, negotiate } from '../worker/protocol';
+import { seedFromNonce } from '../worker/sampling';
+import { GameSchemas, SecurityResponseSchemas, validateMessage } from '../types/schema';
+import { StreamrSchemas } from '../types/schema';
+import type { AppMessage, GameMessage, SecurityRequest, SecurityResponse, StreamrMessage } from '../types/schema';
+import type { SecurityMessageType, SessionMeta } from '../types';
+
+// ============================================================
+// Public Types
+// ============================================================
+
+export interface GameBoxSecurityClientOptions {
+  /** Game iframe running the SDK shim */
+  iframe: HTMLIFrameElement;
+  /** Security Worker instance, or the URL of security-worker.min.js */
+  worker: Worker | string;
+  /** Expected origin of the game iframe; default: any origin, source-checked only */
+  gameOrigin?: string;
+  /** Max wait for each reply (ms), default 10000 */
+  timeoutMs?: number;
+  /**
+   * Max wait for the Worker's NEGOTIATED (ms), default 2000. A Worker that
+   * predates negotiation never answers, so this is how long connect() takes
+   * to fall back to V1 with it.
+   */
+  negotiateTimeoutMs?: number;
+  /**
+   * Resends of a shim request whose reply timed out, default 1. The resend
+   * keeps its requestId, so the shim answers from its reply cache.
+   */
+  retries?: number;
+}
+
+export interface SessionOptions {
+  sessionId: string;
+  /** Keep a transcript for exportTranscript() */
+  record?: boolean;
+  inputDigestVersion?: InputDigestVersion;
+  scoreRules?: ScoreRules;
+}
+
+export interface SessionStarted {
+  sessionId: string;
+  initialHash: string;
+  meta: SessionMeta;
+  /** Agreement with the shim (V1, no capabilities, for pre-negotiation shims) */
+  protocol: ProtocolHello;
+}
+
+export interface CheckpointOptions {
+  /** Server nonce issued for this window */
+  nonceW: string;
+  score: number;
+  level?: number;
+  /** Capture the canvas (default true) */
+  canvas?: boolean;
+  /** Prefer ImageBitmap capture; used only if shim and Worker agreed to it */
+  bitmap?: boolean;
+  /** Embed a fresh watermark and read it back in the same frame; used only if agreed */
+  watermark?: boolean;
+}
+
+export type ClientTrafficDirection = 'toShim' | 'fromShim' | 'toWorker' | 'fromWorker';
+
+export interface ClientTraffic {
+  direction: ClientTrafficDirection;
+  message: Record<string, any>;
+  /** Why the client dropped a shim message: schema failure, or a reply no call is waiting for */
+  invalid?: string;
+}
+
+export interface GameBoxSecurityEvents {
+  /** Shim beacon (SDK_LOADED / SDK_SECURITY_READY) with what the shim declared */
+  shimReady: ProtocolHello;
+  /** Worker negotiation finished */
+  workerReady: ProtocolHello;
+  sessionReady: SessionStarted;
+  checkpoint: WorkerCheckpointResult;
+  final: WorkerFinalHashResult;
+  /** Score and lifecycle messages from the game (_digitapGame) */
+  game: GameMessage;
+  /** Shim messages no call was waiting for (e.g. SDK_REPLAY_STATE) */
+  security: SecurityResponse;
+  /** Streamr replies to _digitapApp webrtc commands */
+  streamr: StreamrMessage;
+  /** Worker errors nobody was waiting for, and rejected shim messages */
+  error: Error;
+  /** Every message in or out, for logging */
+  traffic: ClientTraffic;
+}
+
+type Listener<K extends keyof GameBoxSecurityEvents> = (payload: GameBoxSecurityEvents[K]) => void;
+
+interface Pending {
+  resolve: (message: any) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  /** Shim requests: what the reply must echo */
+  requestId?: string;
+  windowIndex?: number;
+}
+
+const LEGACY: ProtocolHello = { protocolVersion: ProtocolVersion.V1, capabilities: [] };
+
+// ============================================================
+// Client
+// ============================================================
+
+export class GameBoxSecurityClient {
+  private _iframe: HTMLIFrameElement;
+  private _worker: Worker;
+  private _ownsWorker: boolean;
+  private _gameOrigin: string | null;
+  private _timeoutMs: number;
+  private _negotiateTimeoutMs: number;
+  private _retries: number;
+  private _requestSeq = 0;
+
+  private _listeners: { [K in keyof GameBoxSecurityEvents]?: Listener<K>[] } = {};
+  private _pending = new Map<string, Pending>();
+  private _queue: Promise<unknown> = Promise.resolve();
+  private _connected = false;
+
+  private _shimHello: ProtocolHello | null = null;
+  private _shimProtocol: ProtocolHello | null = null;
+  private _workerProtocol: ProtocolHello | null = null;
+  private _sessionId: string | null = null;
+  private _windowIndex = 0;
+  /** Our end of the shim channel; open once the shim has used it */
+  private _port: MessagePort | null = null;
+  private _portOpen = false;
+
+  private _boundWindowMessage = (e: MessageEvent) => this._onWindowMessage(e);
+  private _boundPortMessage = (e: MessageEvent) => this._receive(e.data, true);
+  private _boundWorkerMessage = (e: MessageEvent<WorkerOutboundMessage>) => this._onWorkerMessage(e.data);
+
+  // Reply each Worker request waits for; ERROR.context names the request
+  private static readonly _WORKER_REPLIES: Record<string, WorkerOutboundMessage['type']> = {
+    NEGOTIATE: 'NEGOTIATED',
+    INIT_SESSION: 'SESSION_READY',
+    PROCESS_CHECKPOINT: 'CHECKPOINT_RESULT',
+    COMPUTE_FINAL_HASH: 'FINAL_HASH_RESULT',
+    EXPORT_TRANSCRIPT: 'TRANSCRIPT_RESULT',
+    CREATE_WATERMARK: 'WATERMARK_DATA',
+  };
+
+  // Shim features that are useless unless the Worker can process them
+  private static readonly _WORKER_BACKED: Capability[] = [
+    Capability.CANVAS_THUMB,
+    Capability.CANVAS_BITMAP,
+    Capability.WATERMARK,
+  ];
+
+  private static readonly _BEACON = 'beacon';
+
+  constructor(options: GameBoxSecurityClientOptions) {
+    this._iframe = options.iframe;
+    this._ownsWorker = typeof options.worker === 'string';
+    this._worker = typeof options.worker === 'string' ? new Worker(options.worker) : options.worker;
+    this._gameOrigin = options.gameOrigin ?? null;
+    this._timeoutMs = options.timeoutMs ?? 10000;
+    this._negotiateTimeoutMs = options.negotiateTimeoutMs ?? 2000;
+    this._retries = options.retries ?? 1;
+  }
+
+  // ============================================================
+  // State
+  // ============================================================
+
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
+  /** Index of the next checkpoint window */
+  get windowIndex(): number {
+    return this._windowIndex;
+  }
+
+  /** What the shim declared in its beacon; null until one arrives */
+  get shimHello(): ProtocolHello | null {
+    return this._shimHello;
+  }
+
+  /** Agreement with the shim for the current session */
+  get shimProtocol(): ProtocolHello | null {
+    return this._shimProtocol;
+  }
+
+  get workerProtocol(): ProtocolHello | null {
+    return this._workerProtocol;
+  }
+
+  /** True once shim traffic flows over the private MessagePort */
+  get channelOpen(): boolean {
+    return this._portOpen;
+  }
+
+  // ============================================================
+  // Events
+  // ============================================================
+
+  /**
+   * Subscribe to an event. Returns the unsubscribe function.
+   */
+  on<K extends keyof GameBoxSecurityEvents>(event: K, listener: Listener<K>): () => void {
+    const list = (this._listeners[event] ??= []) as Listener<K>[];
+    list.push(listener);
+    return () => {
+      const index = list.indexOf(listener);
+      if (index !== -1) list.splice(index, 1);
+    };
+  }
+
+  private _emit<K extends keyof GameBoxSecurityEvents>(event: K, payload: GameBoxSecurityEvents[K]): void {
+    for (const listener of (this._listeners[event] ?? []) as Listener<K>[]) {
+      try {
+        listener(payload);
+      } catch {
+        // A failing listener must not break the protocol loop
+      }
+    }
+  }
+
+  // ============================================================
+  // Lifecycle
+  // ============================================================
+
+  /**
+   * Start listening to the iframe and the Worker and negotiate with the
+   * Worker. Call before the game loads so the shim beacons are not missed.
+   * A Worker that predates negotiation never answers; after negotiateTimeoutMs
+   * it is treated as V1.
+   */
+  connect(): Promise<ProtocolHello> {
+    if (!this._connected) {
+      this._connected = true;
+      window.addEventListener('message', this._boundWindowMessage);
+      this._worker.addEventListener('message', this._boundWorkerMessage);
+    }
+
+    return this._serial(async () => {
+      const reply: ProtocolHello = await this._workerRequest<WorkerNegotiated>({
+        type: 'NEGOTIATE',
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: Object.values(Capability),
+      }, this._negotiateTimeoutMs).catch(() => LEGACY);
+
+      this._workerProtocol = { protocolVersion: reply.protocolVersion, capabilities: reply.capabilities };
+      this._emit('workerReady', this._workerProtocol);
+      return this._workerProtocol;
+    });
+  }
+
+  /**
+   * SDK_SESSION_INIT → ACK → INIT_SESSION → SESSION_READY.
+   * Waits for the shim beacon first if none has arrived yet. The first
+   * session with a shim that declared Capability.CHANNEL transfers a
+   * MessagePort with SDK_SESSION_INIT; the ACK arrives on it.
+   */
+  startSession(options: SessionOptions): Promise<SessionStarted> {
+    return this._serial(async () => {
+      if (!this._shimHello) {
+        // Beacons may have fired before connect(); try the session init anyway
+        await this._expect(GameBoxSecurityClient._BEACON).catch(() => null);
+      }
+
+      const offer = this._offer();
+      const channelled = this._port === null && hasCapability(this._shimHello, Capability.CHANNEL);
+
+      let ack: Extract<SecurityResponse, { type: 'SDK_SESSION_INIT_ACK' }>;
+      try {
+        // Every attempt carries a new port: if the shim took the last one and
+        // only the ACK was lost, it drops a resend on the window without one
+        ack = await this._shimRequest(
+          'SDK_SESSION_INIT', 'SDK_SESSION_INIT_ACK', { sessionId: options.sessionId, ...offer },
+          { transfer: () => channelled ? [this._openPort()] : [] }
+        );
+      } finally {
+        // ACK on the window (or none): the shim did not take the port
+        if (channelled && !this._portOpen) this._closePort();
+      }
+      // A pre-negotiation shim answers without a version
+      this._shimProtocol = negotiate(offer, ack);
+
+      const meta = ack.meta;
+      const ready = await this._workerRequest<WorkerSessionReady>({
+        type: 'INIT_SESSION',
+        sessionId: options.sessionId,
+        screenW: meta.screenW,
+        screenH: meta.screenH,
+        ts: ack.ts,
+        record: options.record,
+        inputDigestVersion: options.inputDigestVersion,
+        scoreRules: options.scoreRules,
+      });
+
+      this._sessionId = options.sessionId;
+      this._windowIndex = 0;
+
+      const started: SessionStarted = {
+        sessionId: options.sessionId,
+        initialHash: ready.initialHash,
+        meta,
+        protocol: this._shimProtocol,
+      };
+      this._emit('sessionReady', started);
+      return started;
+    });
+  }
+
+  /**
+   * One checkpoint window: capture in the shim, hash in the Worker.
+   * Submit the result to the backend and pass its next nonce to the next call.
+   *
+   * The window index is used up even if the call fails: the shim may have
+   * flushed the window's input, and refuses a second request for it.
+   */
+  checkpoint(options: CheckpointOptions): Promise<WorkerCheckpointResult> {
+    return this._serial(async () => {
+      this._requireSession();
+      const windowIndex = this._windowIndex++;
+      const seed = seedFromNonce(options.nonceW);
+      const capture = options.bitmap && this._agreed(Capability.CANVAS_BITMAP) ? 'bitmap' : 'samples';
+      const watermark = options.watermark === true && this._agreed(Capability.WATERMARK);
+      const issued = watermark
+        ? await this._workerRequest<WorkerWatermarkData>({ type: 'CREATE_WATERMARK' })
+        : null;
+
+      const response = await this._shimRequest<Extract<SecurityResponse, { type: 'SDK_CHECKPOINT_RESPONSE' }>>(
+        'SDK_CHECKPOINT_REQUEST', 'SDK_CHECKPOINT_RESPONSE', {
+          seed,
+          skipCanvas: options.canvas === false,
+          capture,
+          watermark,
+          ...(issued ? { watermarkData: issued.data } : {}),
+        },
+        { windowIndex }
+      );
+      if (response.stale) {
+        throw new Error(`SDK_CHECKPOINT_RESPONSE: window ${windowIndex} was already taken`);
+      }
+
+      const result = await this._workerRequest<WorkerCheckpointResult>({
+        type: 'PROCESS_CHECKPOINT',
+        windowIndex,
+        nonceW: options.nonceW,
+        score: options.score,
+        level: options.level,
+        ts: Date.now(),
+        events: response.events,
+        pixels: response.pixels,
+        thumb: response.thumb,
+        watermark: response.watermark,
+        bitmap: response.bitmap,
+        seed,
+        screenW: response.screenW,
+        screenH: response.screenH,
+      });
+
+      if (result.windowIndex !== windowIndex) {
+        throw new Error(`CHECKPOINT_RESULT for window ${result.windowIndex}, expected ${windowIndex}`);
+      }
+      this._emit('checkpoint', result);
+      return result;
+    });
+  }
+
+  finalize(finalScore: number, level?: number): Promise<WorkerFinalHashResult> {
+    return this._serial(async () => {
+      const sessionId = this._requireSession();
+      const result = await this._workerRequest<WorkerFinalHashResult>({
+        type: 'COMPUTE_FINAL_HASH',
+        sessionId,
+        finalScore,
+        level,
+        ts: Date.now(),
+      });
+      this._emit('final', result);
+      return result;
+    });
+  }
+
+  /**
+   * Issue a watermark and have the shim embed it. Resolves false if the shim
+   * could not write it intact, or watermarking was not agreed.
+   * A game that repaints every frame overwrites it by the next checkpoint:
+   * to check a window, use checkpoint({ watermark: true }) instead.
+   */
+  embedWatermark(): Promise<boolean> {
+    return this._serial(async () => {
+      this._requireSession();
+      if (!this._agreed(Capability.WATERMARK)) return false;
+
+      const issued = await this._workerRequest<WorkerWatermarkData>({ type: 'CREATE_WATERMARK' });
+      const response = await this._shimRequest<Extract<SecurityResponse, { type: 'SDK_CANVAS_EMBED_RESPONSE' }>>(
+        'SDK_CANVAS_EMBED_REQUEST', 'SDK_CANVAS_EMBED_RESPONSE', { data: issued.data }
+      );
+      return response.success;
+    });
+  }
+
+  /**
+   * Recorded session (startSession with record: true).
+   */
+  exportTranscript(): Promise<WorkerTranscriptResult> {
+    return this._serial(() => this._workerRequest<WorkerTranscriptResult>({ type: 'EXPORT_TRANSCRIPT' }));
+  }
+
+  requestMeta(): Promise<SessionMeta> {
+    return this._serial(async () => {
+      const response = await this._shimRequest<Extract<SecurityResponse, { type: 'SDK_META_RESPONSE' }>>(
+        'SDK_META_REQUEST', 'SDK_META_RESPONSE', {}
+      );
+      return response.meta;
+    });
+  }
+
+  /**
+   * Fire-and-forget message to the shim: _digitapApp commands (including
+   * Streamr webrtc), and replay controls for development builds.
+   */
+  send(message: AppMessage | SecurityRequest): void {
+    this._postToShim(message);
+  }
+
+  /**
+   * Drop the session; the Worker stays usable for the next one.
+   */
+  reset(): void {
+    this._sessionId = null;
+    this._shimProtocol = null;
+    this._windowIndex = 0;
+    this._postToWorker({ type: 'RESET' });
+  }
+
+  /**
+   * Stop listening, fail pending calls, and terminate the Worker if the
+   * client created it.
+   */
+  destroy(): void {
+    window.removeEventListener('message', this._boundWindowMessage);
+    this._worker.removeEventListener('message', this._boundWorkerMessage);
+    this._closePort();
+    this._connected = false;
+
+    for (const [, pending] of this._pending) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error('GameBoxSecurityClient destroyed'));
+    }
+    this._pending.clear();
+
+    if (this._ownsWorker) this._worker.terminate();
+    this._sessionId = null;
+    this._listeners = {};
+  }
+
+  // ============================================================
+  // Inbound
+  // ============================================================
+
+  private _onWindowMessage(event: MessageEvent): void {
+    if (event.source !== this._iframe.contentWindow) return;
+    if (this._gameOrigin !== null && event.origin !== this._gameOrigin) return;
+    this._receive(event.data, false);
+  }
+
+  /**
+   * Once the channel is open the shim sends nothing on the window, so
+   * protocol messages there are injected (or stragglers) and dropped.
+   */
+  private _receive(data: any, viaPort: boolean): void {
+    if (!data || typeof data !== 'object') return;
+    if (viaPort) this._portOpen = true;
+
+    const schemas = data.controller === '_digitapGame' ? GameSchemas
+      : data.controller === '_digitapSecurity' ? SecurityResponseSchemas
+      : data.type === 'streamr' ? StreamrSchemas
+      : null;
+    if (!schemas) return;
+
+    const invalid = (this._portOpen && !viaPort ? 'sent outside the MessageChannel' : null) ??
+      validateMessage(schemas, data) ??
+      (data.controller === '_digitapSecurity' ? this._unmatched(data as SecurityResponse) : null);
+    this._emit('traffic', { direction: 'fromShim', message: data, ...(invalid ? { invalid } : {}) });
+    if (invalid) {
+      this._emit('error', new Error(`Rejected ${data.controller ?? data.type} message: ${invalid}`));
+      return;
+    }
+
+    if (data.controller === '_digitapGame') {
+      this._emit('game', data as GameMessage);
+      return;
+    }
+    if (schemas === StreamrSchemas) {
+      this._emit('streamr', data as StreamrMessage);
+      return;
+    }
+
+    const message = data as SecurityResponse;
+    if (message.type === 'SDK_LOADED' || message.type === 'SDK_SECURITY_READY') {
+      this._shimHello = negotiate({ protocolVersion: PROTOCOL_VERSION, capabilities: Object.values(Capability) }, message);
+      this._settle(GameBoxSecurityClient._BEACON, this._shimHello);
+      this._emit('shimReady', this._shimHello);
+      return;
+    }
+
+    if (!this._settle(message.type, message)) this._emit('security', message);
+  }
+
+  private _onWorkerMessage(message: WorkerOutboundMessage): void {
+    this._emit('traffic', { direction: 'fromWorker', message });
+
+    if (message.type === 'ERROR') {
+      const reply = message.context ? GameBoxSecurityClient._WORKER_REPLIES[message.context] : undefined;
+      const error = new Error(`${message.context ?? 'Worker'}: ${message.message}`);
+      if (!reply || !this._fail(reply, error)) this._emit('error', error);
+      return;
+    }
+
+    this._settle(message.type, message);
+  }
+
+  // ============================================================
+  // Request / Reply
+  // ============================================================
+
+  /**
+   * Run calls one at a time: replies are matched by type, so two calls
+   * waiting for the same reply type must not overlap.
+   */
+  private _serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = this._queue.then(task, task);
+    this._queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Send with a fresh requestId (and the window it is for), resending on
+   * timeout. Replies that echo another id or window are dropped in
+   * _unmatched, so a late reply can't complete the wrong call.
+   * Transferables are gone after the first send: a resend goes without them,
+   * unless `transfer` is a function, which is called for every attempt.
+   */
+  private async _shimRequest<T>(
+    type: SecurityMessageType,
+    reply: SecurityMessageType,
+    payload: Record<string, unknown>,
+    options: { windowIndex?: number; transfer?: Transferable[] | (() => Transferable[]) } = {}
+  ): Promise<T> {
+    const { windowIndex, transfer = [] } = options;
+    const requestId = `r${++this._requestSeq}`;
+    const message = {
+      controller: '_digitapSecurity',
+      type,
+      requestId,
+      ...(windowIndex !== undefined ? { windowIndex } : {}),
+      ...payload,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const pending = this._expect<T>(reply, { requestId, windowIndex });
+      this._postToShim(message, typeof transfer === 'function' ? transfer() : attempt === 0 ? transfer : []);
+      try {
+        return await pending;
+      } catch (error) {
+        // destroy() also rejects pending calls - don't resend after it
+        if (attempt >= this._retries || !this._connected) throw error;
+      }
+    }
+  }
+
+  /**
+   * Why a shim reply can't be accepted, null if it can. Replies from shims
+   * that echo request ids must carry the id (and window) of the waiting call;
+   * anything else is late, a duplicate, or meant for another window.
+   */
+  private _unmatched(message: SecurityResponse): string | null {
+    const pending = this._pending.get(message.type);
+    const { requestId, windowIndex } = message as { requestId?: string; windowIndex?: number };
+
+    if (requestId === undefined) {
+      const echoes = hasCapability(this._shimHello, Capability.REQUEST_ID);
+      return echoes && pending?.requestId !== undefined ? `${message.type} without requestId` : null;
+    }
+    if (!pending || pending.requestId !== requestId) {
+      return `${message.type} for ${requestId} matches no pending request`;
+    }
+    if (pending.windowIndex !== undefined && windowIndex !== undefined && windowIndex !== pending.windowIndex) {
+      return `${message.type} for window ${windowIndex}, expected ${pending.windowIndex}`;
+    }
+    return null;
+  }
+
+  private _postToShim(message: Record<string, any>, transfer: Transferable[] = []): void {
+    this._emit('traffic', { direction: 'toShim', message });
+    if (this._port && this._portOpen) {
+      this._port.postMessage(message, transfer);
+    } else {
+      this._iframe.contentWindow?.postMessage(message, this._gameOrigin ?? '*', transfer);
+    }
+  }
+
+  /**
+   * Replace our end of the shim channel with a new one; returns the shim's end.
+   */
+  private _openPort(): MessagePort {
+    this._closePort();
+    const channel = new MessageChannel();
+    this._port = channel.port1;
+    this._port.onmessage = this._boundPortMessage;
+    return channel.port2;
+  }
+
+  private _closePort(): void {
+    this._port?.close();
+    this._port = null;
+    this._portOpen = false;
+  }
+
+  private _workerRequest<T>(message: WorkerInboundMessage, timeoutMs = this._timeoutMs): Promise<T> {
+    const pending = this._expect<T>(GameBoxSecurityClient._WORKER_REPLIES[message.type], {}, timeoutMs);
+    this._postToWorker(message);
+    return pending;
+  }
+
+  private _postToWorker(message: WorkerInboundMessage): void {
+    this._emit('traffic', { direction: 'toWorker', message });
+    const transfer = message.type === 'PROCESS_CHECKPOINT' && message.bitmap ? [message.bitmap] : [];
+    this._worker.postMessage(message, transfer);
+  }
+
+  private _expect<T>(
+    reply: string,
+    echo: Pick<Pending, 'requestId' | 'windowIndex'> = {},
+    timeoutMs = this._timeoutMs
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pending.delete(reply);
+        reject(new Error(`Timed out waiting for ${reply}${echo.requestId ? ` (${echo.requestId})` : ''}`));
+      }, timeoutMs);
+      this._pending.set(reply, { resolve, reject, timer, ...echo });
+    });
+  }
+
+  private _settle(reply: string, message: unknown): boolean {
+    const pending = this._pending.get(reply);
+    if (!pending) return false;
+    clearTimeout(pending.timer);
+    this._pending.delete(reply);
+    pending.resolve(message);
+    return true;
+  }
+
+  private _fail(reply: string, error: Error): boolean {
+    const pending = this._pending.get(reply);
+    if (!pending) return false;
+    clearTimeout(pending.timer);
+    this._pending.delete(reply);
+    pending.reject(error);
+    return true;
+  }
+
+  // ============================================================
+  // Negotiation
+  // ============================================================
+
+  /**
+   * Offer to the shim: everything, minus Worker-backed features the Worker
+   * did not agree to.
+   */
+  private _offer(): ProtocolHello {
+    const worker = this._workerProtocol?.capabilities ?? [];
+    return {
+      protocolVersion: PROTOCOL_VERSION,
+      capabilities: Object.values(Capability).filter(c =>
+        !GameBoxSecurityClient._WORKER_BACKED.includes(c) || worker.includes(c)
+      ),
+    };
+  }
+
+  private _agreed(capability: Capability): boolean {
+    return hasCapability(this._shimProtocol, capability);
+  }
+
+  private _requireSession(): string {
+    if (!this._sessionId) throw new Error('No active session');
+    return this._sessionId;
+  }
+}
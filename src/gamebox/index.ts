@@ -0,0 +1,17 @@
+/**
+ * GameBox Module Exports
+ *
+ * Runs on the GameBox page, next to the game iframe and the Security Worker.
+ * Not bundled into the SDK shim or the Worker.
+ */
+
+export { GameBoxSecurityClient } from './GameBoxSecurityClient';
+export type {
+  GameBoxSecurityClientOptions,
+  GameBoxSecurityEvents,
+  SessionOptions,
+  SessionStarted,
+  CheckpointOptions,
+  ClientTraffic,
+  ClientTrafficDirection,
+} from './GameBoxSecurityClient';
@@ -0,0 +1,316 @@
+/**
+ * MockGameBox (Local Harness)
+ *
+ * Plays the GameBox parent role on localhost so games can be developed against
+ * the SDK without deploying into wam.app:
+ *   1. Embeds the game iframe and runs the session handshake through
+ *      GameBoxSecurityClient, exactly as GameBox does
+ *   2. Sends _digitapApp commands (start, pause, restart, revive)
+ *   3. Runs the real Security Worker checkpoint loop with locally generated nonces
+ *   4. Reports every protocol message it sees, flagging schema failures
+ *   5. Records a transcript of the session and drives input replay
+ *
+ * Development only - never part of the production build.
+ */
+
+import type { RawEventTuple, ScoreRules, ProtocolHello } from '../worker/types';
+import { GameBoxSecurityClient } from '../gamebox/GameBoxSecurityClient';
+import type { ClientTraffic } from '../gamebox/GameBoxSecurityClient';
+import type { GameMessage } from '../types/schema';
+import type { ReplayState } from '../security/InputReplayer';
+
+export type HarnessCommand =
+  | 'SDK_START_GAME'
+  | 'SDK_PAUSE_GAME'
+  | 'SDK_START_GAME_FROM_ZERO'
+  | 'SDK_CONTINUE_WITH_CURRENT_SCORE';
+
+export type ReplayAction = 'play' | 'pause' | 'seek' | 'speed';
+
+/** 'harness': the harness's own failures (a client call that rejected) */
+export type HarnessChannel = 'game→box' | 'box→game' | 'box→worker' | 'worker→box' | 'harness';
+
+export interface HarnessLogEntry {
+  ts: number;
+  channel: HarnessChannel;
+  controller: string | null;
+  type: string;
+  data: unknown;
+  /** Schema failure for a game→box message, as GameBox would reject it */
+  invalid?: string;
+  /** Why a client call failed ('harness' entries) */
+  error?: string;
+}
+
+export interface HarnessState {
+  sessionId: string | null;
+  score: number;
+  level: number;
+  windowIndex: number;
+  rollingHash: string | null;
+  finalHash: string | null;
+  /** Agreed with the Worker (NEGOTIATED) */
+  workerProtocol: ProtocolHello | null;
+  /** Agreed with the shim (SDK_SESSION_INIT_ACK) */
+  shimProtocol: ProtocolHello | null;
+  /** Shim traffic moved to the MessagePort handed over with SDK_SESSION_INIT */
+  channelOpen: boolean;
+}
+
+export interface MockGameBoxOptions {
+  iframe: HTMLIFrameElement;
+  workerUrl: string;
+  checkpointMs?: number;
+  skipCanvas?: boolean;
+  /** Ask for ImageBitmap captures sampled in the worker */
+  bitmapCapture?: boolean;
+  /** Score plausibility rules sent with INIT_SESSION */
+  scoreRules?: ScoreRules;
+  onLog?: (entry: HarnessLogEntry) => void;
+  onState?: (state: HarnessState) => void;
+  onTranscript?: (ndjson: string) => void;
+  onReplayState?: (state: ReplayState) => void;
+}
+
+export class MockGameBox {
+  private _iframe: HTMLIFrameElement;
+  private _workerUrl: string;
+  private _checkpointMs: number;
+  private _skipCanvas: boolean;
+  private _bitmapCapture: boolean;
+  private _scoreRules: ScoreRules | undefined;
+  private _onLog: (entry: HarnessLogEntry) => void;
+  private _onState: (state: HarnessState) => void;
+  private _onTranscript: (ndjson: string) => void;
+  private _onReplayState: (state: ReplayState) => void;
+
+  private _client: GameBoxSecurityClient | null = null;
+  private _checkpointTimer: number | null = null;
+  private _nonce = '';
+  private _state: HarnessState = MockGameBox._emptyState();
+
+  private static readonly _CHANNELS: Record<ClientTraffic['direction'], HarnessChannel> = {
+    fromShim: 'game→box',
+    toShim: 'box→game',
+    toWorker: 'box→worker',
+    fromWorker: 'worker→box',
+  };
+
+  constructor(options: MockGameBoxOptions) {
+    this._iframe = options.iframe;
+    this._workerUrl = options.workerUrl;
+    this._checkpointMs = options.checkpointMs ?? 5000;
+    this._skipCanvas = options.skipCanvas ?? false;
+    this._bitmapCapture = options.bitmapCapture ?? false;
+    this._scoreRules = options.scoreRules;
+    this._onLog = options.onLog ?? (() => {});
+    this._onState = options.onState ?? (() => {});
+    this._onTranscript = options.onTranscript ?? (() => {});
+    this._onReplayState = options.onReplayState ?? (() => {});
+  }
+
+  get state(): HarnessState {
+    return { ...this._state };
+  }
+
+  /**
+   * Load the game and spawn a fresh Security Worker.
+   */
+  load(gameUrl: string): void {
+    this.destroy();
+
+    const client = new GameBoxSecurityClient({ iframe: this._iframe, worker: this._workerUrl });
+    this._client = client;
+    client.on('traffic', t => this._log(MockGameBox._CHANNELS[t.direction], t.message, t.invalid));
+    client.on('workerReady', protocol => {
+      this._state.workerProtocol = protocol;
+      this._emitState();
+    });
+    // Both beacons can arrive, and SDK_LOADED is retried - start one session only
+    client.on('shimReady', () => {
+      if (!this._state.sessionId) this._startSession();
+    });
+    client.on('game', msg => this._onGameMessage(msg));
+    client.on('security', msg => {
+      if (msg.type === 'SDK_REPLAY_STATE') this._onReplayState(msg as ReplayState);
+    });
+
+    client.connect().catch(err => this._fail(err));
+    this._iframe.src = gameUrl;
+  }
+
+  destroy(): void {
+    this._stopCheckpointLoop();
+    this._client?.destroy();
+    this._client = null;
+
+    this._state = MockGameBox._emptyState();
+    this._emitState();
+  }
+
+  /**
+   * Send a lifecycle command to the game, as the control panel buttons do.
+   */
+  command(type: HarnessCommand): void {
+    this._client?.send({ controller: '_digitapApp', type });
+  }
+
+  /**
+   * End the session: stop checkpoints and ask the worker for the final hash.
+   */
+  finalize(): void {
+    if (!this._client || !this._state.sessionId) return;
+    this._stopCheckpointLoop();
+    this._client.finalize(this._state.score, this._state.level)
+      .then(result => {
+        this._state.finalHash = result.finalHash;
+        this._emitState();
+      })
+      .catch(err => this._fail(err));
+  }
+
+  /**
+   * Ask the worker for the recorded session (delivered via onTranscript).
+   */
+  exportTranscript(): void {
+    this._client?.exportTranscript()
+      .then(result => this._onTranscript(result.transcript))
+      .catch(err => this._fail(err));
+  }
+
+  /**
+   * Send a recorded event stream to the game for replay (dev SDK builds only).
+   */
+  replayLoad(events: RawEventTuple[], screenW: number, screenH: number): void {
+    this._client?.send({
+      controller: '_digitapSecurity',
+      type: 'SDK_REPLAY_LOAD',
+      events,
+      screenW,
+      screenH,
+    });
+  }
+
+  replayControl(action: ReplayAction, value?: number): void {
+    this._client?.send({ controller: '_digitapSecurity', type: 'SDK_REPLAY_CONTROL', action, value });
+  }
+
+  private _onGameMessage(msg: GameMessage): void {
+    switch (msg.type) {
+      case 'SDK_PLAYER_SCORE_UPDATE':
+      case 'progress':
+        this._state.score = msg.score;
+        this._state.level = msg.level ?? this._state.level;
+        this._emitState();
+        break;
+
+      case 'SDK_PLAYER_LEVEL_UP':
+        this._state.level = msg.level ?? this._state.level;
+        this._emitState();
+        break;
+
+      case 'SDK_PLAYER_FAILED':
+        // Real GameBox pauses immediately on death; the SDK applies its grace period
+        this.command('SDK_PAUSE_GAME');
+        break;
+    }
+  }
+
+  private _startSession(): void {
+    const client = this._client!;
+    this._state.sessionId = `local-${MockGameBox._randomHex(8)}`;
+    this._nonce = MockGameBox._randomHex(16);
+    this._emitState();
+
+    client.startSession({ sessionId: this._state.sessionId, record: true, scoreRules: this._scoreRules })
+      .then(started => {
+        this._state.shimProtocol = started.protocol;
+        this._state.channelOpen = client.channelOpen;
+        this._state.rollingHash = started.initialHash;
+        this._emitState();
+        this._startCheckpointLoop();
+      })
+      .catch(err => this._fail(err));
+  }
+
+  private _startCheckpointLoop(): void {
+    this._stopCheckpointLoop();
+    this._checkpointTimer = window.setInterval(() => this._checkpoint(), this._checkpointMs);
+  }
+
+  private _checkpoint(): void {
+    const client = this._client;
+    if (!client) return;
+
+    client.checkpoint({
+      nonceW: this._nonce,
+      score: this._state.score,
+      level: this._state.level,
+      canvas: !this._skipCanvas,
+      bitmap: this._bitmapCapture,
+    })
+      .then(result => {
+        this._state.windowIndex = client.windowIndex;
+        this._state.rollingHash = result.rollingHash;
+        // Stand-in for the backend issuing the next server nonce
+        this._nonce = MockGameBox._randomHex(16);
+        this._emitState();
+      })
+      .catch(err => this._fail(err));
+  }
+
+  private _stopCheckpointLoop(): void {
+    if (this._checkpointTimer !== null) {
+      clearInterval(this._checkpointTimer);
+      this._checkpointTimer = null;
+    }
+  }
+
+  /**
+   * Failed client calls go to the log panel next to the traffic that caused them.
+   */
+  private _fail(error: Error): void {
+    this._onLog({
+      ts: Date.now(),
+      channel: 'harness',
+      controller: null,
+      type: 'ERROR',
+      data: { message: error.message },
+      error: error.message,
+    });
+  }
+
+  private _log(channel: HarnessChannel, data: any, invalid?: string): void {
+    this._onLog({
+      ts: Date.now(),
+      channel,
+      controller: typeof data.controller === 'string' ? data.controller : null,
+      type: String(data.type),
+      data,
+      ...(invalid ? { invalid } : {}),
+    });
+  }
+
+  private _emitState(): void {
+    this._onState(this.state);
+  }
+
+  private static _emptyState(): HarnessState {
+    return {
+      sessionId: null,
+      score: 0,
+      level: 0,
+      windowIndex: 0,
+      rollingHash: null,
+      finalHash: null,
+      workerProtocol: null,
+      shimProtocol: null,
+      channelOpen: false,
+    };
+  }
+
+  private static _randomHex(bytes: number): string {
+    const buf = crypto.getRandomValues(new Uint8Array(bytes));
+    return '0x' + Array.from(buf).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+}
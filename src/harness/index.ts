@@ -0,0 +1,112 @@
+/**
+ * Local Harness Entry Point
+ *
+ * Wires the MockGameBox to the control panel in harness/index.html.
+ * Served by `npm run harness` at http://localhost:8080 - no network required.
+ */
+
+import { MockGameBox } from './MockGameBox';
+import type { HarnessCommand, HarnessLogEntry, HarnessState } from './MockGameBox';
+import type { ReplayState } from '../security/InputReplayer';
+import type { RawEventTuple } from '../worker/types';
+import { parseTranscript } from '../worker/Transcript';
+
+const DEFAULT_GAME_URL = 'example-game.html';
+
+function $(id: string): HTMLElement {
+  const el = document.getElementById(id);
+  if (!el) throw new Error(`Harness element #${id} missing`);
+  return el;
+}
+
+const iframe = $('game') as HTMLIFrameElement;
+const urlInput = $('game-url') as HTMLInputElement;
+const canvasToggle = $('sample-canvas') as HTMLInputElement;
+const bitmapToggle = $('bitmap-capture') as HTMLInputElement;
+const stateView = $('state');
+const logView = $('log');
+const replayFile = $('replay-file') as HTMLInputElement;
+const replaySeek = $('replay-seek') as HTMLInputElement;
+const replaySpeed = $('replay-speed') as HTMLSelectElement;
+const replayView = $('replay-state');
+
+function renderState(state: HarnessState): void {
+  stateView.textContent = JSON.stringify(state, null, 2);
+}
+
+function renderLog(entry: HarnessLogEntry): void {
+  const row = document.createElement('li');
+  row.className = entry.channel === 'harness' ? 'error'
+    : entry.channel.includes('worker') ? 'worker'
+    : entry.channel === 'game→box' ? 'inbound' : 'outbound';
+  row.textContent = `${new Date(entry.ts).toISOString().slice(11, 23)}  ${entry.channel}  ${entry.type}` +
+    (entry.invalid ? `  ✗ ${entry.invalid}` : '') +
+    (entry.error ? `  ✗ ${entry.error}` : '');
+  row.title = JSON.stringify(entry.data, (_k, v) => v instanceof Uint8Array ? `Uint8Array(${v.length})` : v, 2);
+  logView.prepend(row);
+}
+
+function renderReplay(state: ReplayState): void {
+  replaySeek.max = String(Math.ceil(state.duration));
+  replaySeek.value = String(Math.floor(state.position));
+  replayView.textContent =
+    `${state.playing ? '▶' : '❚❚'} ${(state.position / 1000).toFixed(1)}s / ${(state.duration / 1000).toFixed(1)}s` +
+    `  event ${state.cursor}/${state.total}  x${state.speed}`;
+}
+
+function download(ndjson: string): void {
+  const url = URL.createObjectURL(new Blob([ndjson], { type: 'application/x-ndjson' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `transcript-${box?.state.sessionId ?? 'session'}.ndjson`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Flatten a transcript's checkpoint windows into one event stream.
+ * Timestamps share one performance.now() timeline across windows.
+ */
+async function loadReplay(file: File): Promise<void> {
+  const { records } = parseTranscript(await file.text());
+  const events: RawEventTuple[] = records.flatMap(r => r.events);
+  const viewport = records.find(r => r.screenW && r.screenH);
+  box?.replayLoad(events, viewport?.screenW ?? 0, viewport?.screenH ?? 0);
+}
+
+let box: MockGameBox | null = null;
+
+function load(): void {
+  box?.destroy();
+  box = new MockGameBox({
+    iframe,
+    workerUrl: 'security-worker.min.js',
+    skipCanvas: !canvasToggle.checked,
+    bitmapCapture: bitmapToggle.checked,
+    onLog: renderLog,
+    onState: renderState,
+    onTranscript: download,
+    onReplayState: renderReplay,
+  });
+  logView.textContent = '';
+  box.load(urlInput.value || DEFAULT_GAME_URL);
+}
+
+urlInput.value = new URLSearchParams(location.search).get('game') ?? DEFAULT_GAME_URL;
+
+$('load').addEventListener('click', load);
+$('finalize').addEventListener('click', () => box?.finalize());
+$('export').addEventListener('click', () => box?.exportTranscript());
+$('replay-play').addEventListener('click', () => box?.replayControl('play'));
+$('replay-pause').addEventListener('click', () => box?.replayControl('pause'));
+replaySeek.addEventListener('change', () => box?.replayControl('seek', Number(replaySeek.value)));
+replaySpeed.addEventListener('change', () => box?.replayControl('speed', Number(replaySpeed.value)));
+replayFile.addEventListener('change', () => {
+  const file = replayFile.files?.[0];
+  if (file) loadReplay(file).catch(err => alert(`Invalid transcript: ${err.message}`));
+});
+document.querySelectorAll<HTMLButtonElement>('[data-command]').forEach(button => {
+  button.addEventListener('click', () => box?.command(button.dataset.command as HarnessCommand));
+});
+
+load();
@@ -9,25 +9,29 @@
  *   digitapSDK('setProgress', state, score, level)
  *   digitapSDK('setLevelUp', level)
  *   digitapSDK('setPlayerFailed', state)
+ *
+ * Additive (optional):
+ *   digitapSDK('setCanvas', elementOrSelector)
  * 
  * @version 2.0.0
  */
 
-import type { Progress, CanvasElement } from './types';
-import { SecurityBridge, log } from './security';
+import type { Progress, CanvasElement, AppMessage } from './types';
+import { AppSchemas, GameSchemas, SecurityResponseSchemas, StreamrSchemas } from './types';
+import { SecurityBridge, OriginPolicy, log, acceptMessage } from './security';
+import type { CanvasTarget } from './security';
+import { ENVIRONMENT } from './config/environment';
 
 // ============================================================
 // Security Bridge Singleton
 // ============================================================
 
-const ALLOWED_ORIGINS = [
-  'https://wam.app',
-  'https://app.wam.app',
-  'https://wam.eu',
-  'https://win.wam.app',
-  'https://play.wam.app',
-];
+// Build profile origins (src/config/environments.json) plus signed runtime grants.
+// The local profile adds the mock GameBox (npm run harness).
+const originPolicy = new OriginPolicy(ENVIRONMENT.origins, ENVIRONMENT.originGrantKey);
 const securityBridge = new SecurityBridge();
+// Window until SDK_SESSION_INIT hands over a MessagePort, then the port
+const transport = securityBridge.transport;
 
 // ============================================================
 // Main SDK Class
@@ -44,8 +48,6 @@ class DigitapGamePlayerSDK {
   private static readonly _MAX_INIT_RETRIES = 10;
   private static readonly _INIT_RETRY_DELAY_MS = 500;
 
-  private static _allowedOrigins: string[] = ALLOWED_ORIGINS;
-
 
   /**
    * Start the connection handshake with GameBox.
@@ -106,9 +108,10 @@ class DigitapGamePlayerSDK {
    */
   private static _sendLoadedBeacon(): void {
     try {
-      window.parent.postMessage({
+      transport.post(SecurityResponseSchemas, {
         controller: '_digitapSecurity',
         type: 'SDK_LOADED',
+        ...securityBridge.hello,
         ts: Date.now()
       }, '*');
     } catch (e) {
@@ -154,7 +157,8 @@ class DigitapGamePlayerSDK {
         | 'setProgress'
         | 'setLevelUp'
         | 'setPlayerFailed'
-        | 'setCallback';
+        | 'setCallback'
+        | 'setCanvas';
 
       const method = DigitapGamePlayerSDK[methodName] as (...args: any[]) => void;
       if (method) {
@@ -187,6 +191,14 @@ class DigitapGamePlayerSDK {
     (this as any)[fn] = callback;
   }
 
+  /**
+   * Register the game canvas (element or CSS selector) when the page has
+   * more than one. Without it the largest canvas is used.
+   */
+  public static setCanvas(target: CanvasTarget | null): void {
+    securityBridge.canvases.set(target);
+  }
+
   /**
    * Init a new game connection with the parent platform.
    */
@@ -205,7 +217,8 @@ class DigitapGamePlayerSDK {
 
       // Send the init message
       log.info('Sending SDK_SETTINGS to parent', { uiOptions });
-      window.parent.postMessage(
+      transport.post(
+        GameSchemas,
         {
           controller: '_digitapGame',
           type: 'SDK_SETTINGS',
@@ -224,13 +237,13 @@ class DigitapGamePlayerSDK {
       log.info('✓ Listening for Streamr events');
 
       // Set the canvas fullwidth & blue screen fix
-      const canvas: HTMLCollection = document.getElementsByTagName('canvas');
       const html: HTMLCollection = document.getElementsByTagName('html');
 
       setTimeout(() => {
-        if (canvas[0]) {
-          const canvasStyle = canvas[0].getAttribute('style') || '';
-          canvas[0].setAttribute(
+        const canvas = securityBridge.canvases.canvas;
+        if (canvas) {
+          const canvasStyle = canvas.getAttribute('style') || '';
+          canvas.setAttribute(
             'style',
             canvasStyle +
               'width: 100%; margin: 0; padding: 0; user-select: none; -webkit-user-select: none; -moz-user-select: none;'
@@ -338,7 +351,7 @@ class DigitapGamePlayerSDK {
 
   private static _postProgress(): void {
     this._lastSendTs = Date.now();
-    window.parent.postMessage(this._progress, this._origin ?? '*');
+    transport.post(GameSchemas, this._progress, this._origin ?? '*');
   }
 
   /**
@@ -347,123 +360,121 @@ class DigitapGamePlayerSDK {
   private static _listenGameboxEvents(): void {
     const self = this;
 
-    window.addEventListener(
-      'message',
+    transport.on(
+      '_digitapApp',
       function (event) {
-        // STRICT FILTER 1: Only accept messages from parent window (GameBox)
-        if (event.source !== window.parent) {
-          return; // Silently ignore - not from GameBox
-        }
+        // GameBoxTransport already dropped anything not from GameBox (parent or port)
 
-        // STRICT FILTER 2: Must be a valid object with controller
-        const data = event.data;
-        if (!data || typeof data !== 'object' || data.controller !== '_digitapApp') {
-          return; // Silently ignore - not our protocol
+        // STRICT FILTER 1: webrtc commands belong to the Streamr listener,
+        // origin grants to the listener registered at load
+        if (event.data.type === 'webrtc' || event.data.type === 'SDK_ORIGIN_GRANT') {
+          return;
         }
 
-        // STRICT FILTER 3: Must have a valid type (support both NEW and OLD protocols)
-        const validTypes = [
-          // NEW protocol (SDK v2+)
-          'SDK_START_GAME',
-          'SDK_PAUSE_GAME', 
-          'SDK_START_GAME_FROM_ZERO',
-          'SDK_CONTINUE_WITH_CURRENT_SCORE',
-          // OLD protocol (SDK v1.0.0 backward compatibility)
-          'startGame',
-          'startGameFromZero',
-          'continueWithCurrentScore'
-        ];
-        if (!data.type || !validTypes.includes(data.type)) {
-          return; // Silently ignore - unknown command
-        }
+        // STRICT FILTER 2: Must match AppSchemas (NEW and OLD protocol commands)
+        if (!acceptMessage(AppSchemas, event.data)) return;
+        const data = event.data as AppMessage;
 
         // Validate origin
-        const originIndex = self._allowedOrigins.indexOf(event.origin);
-        if (originIndex === -1) {
-          log.warn(`GameBox message from unauthorized origin: ${event.origin}`);
+        if (originPolicy.allows(event.origin)) {
+          self._onGameboxCommand(data, event.origin);
           return;
         }
-        self._origin = self._allowedOrigins[originIndex];
-
-        log.event(`GameBox → SDK: ${data.type}`, { origin: event.origin });
-        
-        switch (data.type) {
-          // NEW protocol
-          case 'SDK_START_GAME':
-          // OLD protocol (backward compat)
-          case 'startGame':
-            log.info('📢 Calling afterStartGame()');
-            self.afterStartGame();
-            break;
-
-          case 'SDK_PAUSE_GAME': {
-            // If player just died, delay the pause so death animation can complete
-            const timeSinceDeath = Date.now() - self._deathTimestamp;
-            if (self._deathTimestamp > 0 && timeSinceDeath < self._deathGracePeriodMs) {
-              const delay = self._deathGracePeriodMs - timeSinceDeath;
-              log.info(`📢 Delaying afterPauseGame() by ${delay}ms for death animation`);
-              // Cancel any existing pending pause
-              if (self._pendingPauseTimeout) {
-                clearTimeout(self._pendingPauseTimeout);
-              }
-              self._pendingPauseTimeout = setTimeout(() => {
-                self._pendingPauseTimeout = null;
-                self._deathTimestamp = 0; // Reset
-                self.afterPauseGame();
-              }, delay);
-            } else {
-              // Clear stale death timestamp if grace period already passed
-              self._deathTimestamp = 0;
-              log.info('📢 Calling afterPauseGame()');
-              self.afterPauseGame();
-            }
-            break;
+        // A signed grant for this origin may still be verifying
+        originPolicy.verified(event.origin).then((allowed) => {
+          if (allowed) {
+            self._onGameboxCommand(data, event.origin);
+          } else {
+            log.warn(`GameBox message from unauthorized origin: ${event.origin}`);
           }
+        });
+      }
+    );
+  }
 
-          // NEW protocol
-          case 'SDK_START_GAME_FROM_ZERO':
-          // OLD protocol (backward compat)
-          case 'startGameFromZero':
-            log.info('📢 Resetting progress and calling afterStartGameFromZero()');
-            // Cancel any pending pause from death grace period
-            if (self._pendingPauseTimeout) {
-              clearTimeout(self._pendingPauseTimeout);
-              self._pendingPauseTimeout = null;
-            }
-            self._deathTimestamp = 0; // Clear death state
-            self._progress.score = 0;
-            self._progress.level = 0;
-            self._progress.continueScore = 0;
-            self.afterStartGameFromZero();
-            // After reset, start the game (game was paused by SDK_PAUSE_GAME)
-            log.info('📢 Calling afterStartGame() to start');
-            self.afterStartGame();
-            break;
-
-          // NEW protocol
-          case 'SDK_CONTINUE_WITH_CURRENT_SCORE':
-          // OLD protocol (backward compat)
-          case 'continueWithCurrentScore':
-            log.info(`📢 Continuing with score=${self._progress.continueScore}, level=${self._progress.level}`);
-            // Cancel any pending pause from death grace period
-            if (self._pendingPauseTimeout) {
-              clearTimeout(self._pendingPauseTimeout);
-              self._pendingPauseTimeout = null;
-            }
-            self._deathTimestamp = 0; // Clear death state
-            self._progress.score = self._progress.continueScore;
-            // Restore score via callback - game resumes itself in this callback
-            self.afterContinueWithCurrentScore(
-              self._progress.score,
-              self._progress.level
-            );
-            // NOTE: Do NOT call afterStartGame() here - legacy games resume 
-            // in their _afterContinueWithCurrentScore callback
-            break;
+  /**
+   * Run a GameBox command from an allowed origin.
+   */
+  private static _onGameboxCommand(data: AppMessage, origin: string): void {
+    const self = this;
+    self._origin = origin;
+
+    log.event(`GameBox → SDK: ${data.type}`, { origin });
+
+    switch (data.type) {
+      // NEW protocol
+      case 'SDK_START_GAME':
+      // OLD protocol (backward compat)
+      case 'startGame':
+        log.info('📢 Calling afterStartGame()');
+        self.afterStartGame();
+        break;
+
+      case 'SDK_PAUSE_GAME': {
+        // If player just died, delay the pause so death animation can complete
+        const timeSinceDeath = Date.now() - self._deathTimestamp;
+        if (self._deathTimestamp > 0 && timeSinceDeath < self._deathGracePeriodMs) {
+          const delay = self._deathGracePeriodMs - timeSinceDeath;
+          log.info(`📢 Delaying afterPauseGame() by ${delay}ms for death animation`);
+          // Cancel any existing pending pause
+          if (self._pendingPauseTimeout) {
+            clearTimeout(self._pendingPauseTimeout);
+          }
+          self._pendingPauseTimeout = setTimeout(() => {
+            self._pendingPauseTimeout = null;
+            self._deathTimestamp = 0; // Reset
+            self.afterPauseGame();
+          }, delay);
+        } else {
+          // Clear stale death timestamp if grace period already passed
+          self._deathTimestamp = 0;
+          log.info('📢 Calling afterPauseGame()');
+          self.afterPauseGame();
         }
-      },
-      false
-    );
+        break;
+      }
+
+      // NEW protocol
+      case 'SDK_START_GAME_FROM_ZERO':
+      // OLD protocol (backward compat)
+      case 'startGameFromZero':
+        log.info('📢 Resetting progress and calling afterStartGameFromZero()');
+        // Cancel any pending pause from death grace period
+        if (self._pendingPauseTimeout) {
+          clearTimeout(self._pendingPauseTimeout);
+          self._pendingPauseTimeout = null;
+        }
+        self._deathTimestamp = 0; // Clear death state
+        self._progress.score = 0;
+        self._progress.level = 0;
+        self._progress.continueScore = 0;
+        self.afterStartGameFromZero();
+        // After reset, start the game (game was paused by SDK_PAUSE_GAME)
+        log.info('📢 Calling afterStartGame() to start');
+        self.afterStartGame();
+        break;
+
+      // NEW protocol
+      case 'SDK_CONTINUE_WITH_CURRENT_SCORE':
+      // OLD protocol (backward compat)
+      case 'continueWithCurrentScore':
+        log.info(`📢 Continuing with score=${self._progress.continueScore}, level=${self._progress.level}`);
+        // Cancel any pending pause from death grace period
+        if (self._pendingPauseTimeout) {
+          clearTimeout(self._pendingPauseTimeout);
+          self._pendingPauseTimeout = null;
+        }
+        self._deathTimestamp = 0; // Clear death state
+        self._progress.score = self._progress.continueScore;
+        // Restore score via callback - game resumes itself in this callback
+        self.afterContinueWithCurrentScore(
+          self._progress.score,
+          self._progress.level
+        );
+        // NOTE: Do NOT call afterStartGame() here - legacy games resume 
+        // in their _afterContinueWithCurrentScore callback
+        break;
+    }
   }
 
   /**
@@ -524,15 +535,13 @@ class DigitapGamePlayerSDK {
       handlers = { connectionState: null, iceConnectionState: null, iceCandidate: null, negotiation: null, signaling: null, message: null };
     }
 
-    window.addEventListener('message', async (event) => {
+    transport.on('_digitapApp', async (event) => {
       try {
-        if (event.source !== window.parent) return;
-        if (!event.data || typeof event.data !== 'object') return;
-
-        const { controller, type, action, offer, tournament_id, username } =
-          event.data;
+        if (event.data.type !== 'webrtc') return;
+        if (!acceptMessage(AppSchemas, event.data)) return;
 
-        if (controller !== '_digitapApp' || type !== 'webrtc') return;
+        const { action, offer, fps, tournament_id, username } =
+          event.data as Extract<AppMessage, { type: 'webrtc' }>;
 
         if (action === 'close') {
           if (channel && connected) {
@@ -546,12 +555,11 @@ class DigitapGamePlayerSDK {
           // Tear down any existing session before creating a new one
           if (connection || stream) teardown();
 
-          canvas = document.querySelector('canvas') as CanvasElement;
+          canvas = securityBridge.canvases.canvas as CanvasElement | null;
           if (!canvas) return;
 
           // FPS passed by GameBox, default 15 (30 was overkill and killed mobile)
-          const fps = event.data.fps ?? 15;
-          stream = canvas.captureStream(fps);
+          stream = canvas.captureStream(fps ?? 15);
 
           connection = new RTCPeerConnection({
             iceServers: [{ urls: 'stun:stun.l.google.com:19302' }],
@@ -570,14 +578,16 @@ class DigitapGamePlayerSDK {
             switch (connection.connectionState) {
               case 'connected':
                 connected = true;
-                (event.source as Window).postMessage(
+                transport.post(
+                  StreamrSchemas,
                   { type: 'streamr', action: 'connected' },
                   event.origin
                 );
                 break;
               case 'disconnected':
               case 'failed':
-                (event.source as Window).postMessage(
+                transport.post(
+                  StreamrSchemas,
                   { type: 'streamr', action: 'disconnected' },
                   event.origin
                 );
@@ -598,7 +608,8 @@ class DigitapGamePlayerSDK {
               if (e.candidate) {
                 iceCandidate = e.candidate;
               } else if (connection) {
-                (event.source as Window).postMessage(
+                transport.post(
+                  StreamrSchemas,
                   {
                     type: 'streamr',
                     action: 'answer',
@@ -624,7 +635,7 @@ class DigitapGamePlayerSDK {
           handlers.negotiation = async () => {
             try {
               if (isNegotiationNeeded || !connection) return;
-              await connection.setRemoteDescription(JSON.parse(offer));
+              await connection.setRemoteDescription(JSON.parse(offer!));
               await connection.setLocalDescription(await connection.createAnswer());
             } catch {}
           };
@@ -642,7 +653,8 @@ class DigitapGamePlayerSDK {
           connection.addEventListener('signalingstatechange', handlers.signaling);
           channel.addEventListener('message', handlers.message);
 
-          await connection.setRemoteDescription(JSON.parse(offer));
+          // AppSchemas requires a JSON object offer for init
+          await connection.setRemoteDescription(JSON.parse(offer!));
           await connection.setLocalDescription(await connection.createAnswer());
         }
       } catch {}
@@ -662,48 +674,24 @@ class DigitapGamePlayerSDK {
 }
 
 // ============================================================
-// GLOBAL MESSAGE LISTENER - Attached IMMEDIATELY on script load
-// Only logs messages from GameBox (parent) with valid protocol structure
+// Initialize Security Bridge IMMEDIATELY (don't wait for game init)
+// Starts GameBoxTransport: the one message listener, attached on script load
 // ============================================================
 
-(function attachGlobalListener() {
-  if (typeof window === 'undefined') return;
-  
-  log.info('🔌 SDK script loaded - attaching global message listener');
-  
-  window.addEventListener('message', (event) => {
-    // STRICT FILTER: Only accept messages from parent window (GameBox)
-    if (event.source !== window.parent) {
-      return; // Silently ignore - not from GameBox
-    }
-    
-    // STRICT FILTER: Must be an object with our protocol structure
-    const data = event.data;
-    if (!data || typeof data !== 'object') {
-      return; // Silently ignore - malformed
-    }
-    
-    // STRICT FILTER: Must have a valid controller from our protocol
-    const controller = data.controller;
-    if (controller !== '_digitapApp' && controller !== '_digitapSecurity') {
-      return; // Silently ignore - not our protocol (e.g. MetaMask, extensions)
-    }
-    
-    // This is a valid GameBox message - log it
-    log.info('📩 GameBox message received:', {
-      origin: event.origin,
-      controller: controller,
-      type: data.type
-    });
-  });
-  
-})();
+securityBridge.init();
 
 // ============================================================
-// Initialize Security Bridge IMMEDIATELY (don't wait for game init)
+// Origin Grants: GameBox may forward a signed extension of the
+// allowed origins at any time, before or after game init
 // ============================================================
 
-securityBridge.init();
+transport.on('_digitapApp', (event) => {
+  if (event.data.type !== 'SDK_ORIGIN_GRANT') return;
+  if (!acceptMessage(AppSchemas, event.data)) return;
+
+  const { payload, signature } = event.data as Extract<AppMessage, { type: 'SDK_ORIGIN_GRANT' }>;
+  originPolicy.grant(event.origin, payload, signature);
+});
 
 // ============================================================
 // Start Connection Handshake with GameBox (with retry logic)
@@ -744,7 +732,7 @@ const _digitapUser: LegacyDigitapUser = {
   gameObject: null,
   isLoaded: false,
   origin: null,
-  allowedOrigins: ALLOWED_ORIGINS,
+  allowedOrigins: ENVIRONMENT.origins,
   progress: {
     controller: '_digitapGame',
     type: 'progress',
@@ -784,7 +772,8 @@ const _digitapUser: LegacyDigitapUser = {
 
     if (!this.isLoaded) {
       // Send OLD-style settings message for backward compat
-      window.parent.postMessage(
+      transport.post(
+        GameSchemas,
         {
           controller: '_digitapGame',
           type: 'settings', // OLD protocol uses 'settings'
@@ -795,7 +784,8 @@ const _digitapUser: LegacyDigitapUser = {
       );
 
       // Also send NEW-style settings (in case GameBox expects it)
-      window.parent.postMessage(
+      transport.post(
+        GameSchemas,
         {
           controller: '_digitapGame',
           type: 'SDK_SETTINGS',
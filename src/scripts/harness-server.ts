@@ -0,0 +1,68 @@
+import { createServer } from 'node:http'
+import { readFile } from 'node:fs/promises'
+import { extname, join, normalize, resolve } from 'node:path'
+
+// ── Config ───────────────────────────────────────────────────────────
+// Port is fixed: dev builds of the SDK allow http://localhost:8080 as GameBox origin
+const PORT = 8080
+// Loopback only: the harness serves dist/ and is not meant for the network
+const HOST = '127.0.0.1'
+const ROOTS = [resolve('harness'), resolve('dist')]
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js':   'text/javascript; charset=utf-8',
+    '.map':  'application/json; charset=utf-8',
+    '.css':  'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.png':  'image/png',
+    '.jpg':  'image/jpeg',
+    '.svg':  'image/svg+xml',
+    '.wasm': 'application/wasm',
+}
+
+// ── Static lookup (harness/ first, then dist/) ───────────────────────
+async function lookup(urlPath: string): Promise<Buffer | null> {
+    const relative = normalize(urlPath).replace(/^([/\\]|\.\.)+/, '')
+    const file = relative === '' || relative === '.' ? 'index.html' : relative
+
+    for (const root of ROOTS) {
+        const path = join(root, file)
+        if (!path.startsWith(root)) continue
+        try {
+            return await readFile(path)
+        } catch {}
+    }
+    return null
+}
+
+// ── Server ───────────────────────────────────────────────────────────
+const server = createServer(async (req, res) => {
+    const pathname = new URL(req.url ?? '/', `http://localhost:${PORT}`).pathname
+    let urlPath: string
+    try {
+        urlPath = decodeURIComponent(pathname)
+    } catch {
+        // Malformed %-sequence: a throw here would be an unhandled rejection and stop the server
+        res.writeHead(400).end('Bad request')
+        return
+    }
+
+    const body = await lookup(urlPath)
+
+    if (!body) {
+        res.writeHead(404).end('Not found')
+        return
+    }
+
+    res.writeHead(200, {
+        'Content-Type':  MIME_TYPES[extname(urlPath)] ?? 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store',
+    })
+    res.end(body)
+})
+
+server.listen(PORT, HOST, () => {
+    console.log(`Local GameBox harness: http://localhost:${PORT}/`)
+    console.log(`Load your own game with ?game=<url> (include http://localhost:${PORT}/main.min.4.js in it)`)
+})
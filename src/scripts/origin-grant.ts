@@ -0,0 +1,80 @@
+import 'dotenv/config'
+import { generateKeyPairSync, createPrivateKey, sign } from 'node:crypto'
+
+// ── Usage ────────────────────────────────────────────────────────────
+//   npm run origin-grant -- keygen
+//   npm run origin-grant -- https://partner.example [https://other.example] [--days 30]
+//
+// keygen prints a P-256 key pair: the public key goes into
+// ORIGIN_GRANT_PUBLIC_KEY for builds, the private key into
+// ORIGIN_GRANT_PRIVATE_KEY. Otherwise prints the SDK_ORIGIN_GRANT message
+// GameBox forwards to the game iframe.
+const DEFAULT_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const args = process.argv.slice(2)
+
+// ── Key pair ─────────────────────────────────────────────────────────
+function keygen(): void {
+    const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const spki = publicKey.export({ type: 'spki', format: 'der' }).toString('base64')
+    const pkcs8 = privateKey.export({ type: 'pkcs8', format: 'der' }).toString('base64')
+
+    console.log(`ORIGIN_GRANT_PUBLIC_KEY (build env):\n${spki}\n`)
+    console.log(`ORIGIN_GRANT_PRIVATE_KEY (.env, keep secret):\n${pkcs8}`)
+}
+
+// ── Grant ────────────────────────────────────────────────────────────
+function isOrigin(value: string): boolean {
+    try {
+        return new URL(value).origin === value
+    } catch {
+        return false
+    }
+}
+
+function grant(): void {
+    if (!process.env.ORIGIN_GRANT_PRIVATE_KEY) {
+        console.error('Missing env var: ORIGIN_GRANT_PRIVATE_KEY')
+        process.exit(1)
+    }
+
+    const daysIndex = args.indexOf('--days')
+    const days = daysIndex === -1 ? DEFAULT_DAYS : Number(args[daysIndex + 1])
+    const origins = daysIndex === -1 ? args : args.filter((_, i) => i !== daysIndex && i !== daysIndex + 1)
+
+    if (!origins.length || !(days > 0)) {
+        console.error('Usage: npm run origin-grant -- <origin...> [--days N]')
+        process.exit(1)
+    }
+    for (const origin of origins) {
+        if (!isOrigin(origin)) {
+            console.error(`Not an origin: ${origin} (expected e.g. https://partner.example)`)
+            console.error('Usage: npm run origin-grant -- <origin...> [--days N]')
+            process.exit(1)
+        }
+    }
+
+    const key = createPrivateKey({
+        key: Buffer.from(process.env.ORIGIN_GRANT_PRIVATE_KEY, 'base64'),
+        format: 'der',
+        type: 'pkcs8',
+    })
+    const payload = JSON.stringify({ origins, exp: Date.now() + days * DAY_MS })
+    // ieee-p1363 (r||s) is the signature format WebCrypto verifies
+    const signature = sign('sha256', Buffer.from(payload), { key, dsaEncoding: 'ieee-p1363' }).toString('base64')
+
+    console.log(JSON.stringify({
+        controller: '_digitapApp',
+        type:       'SDK_ORIGIN_GRANT',
+        payload,
+        signature,
+    }, null, 2))
+}
+
+// ── Main ─────────────────────────────────────────────────────────────
+if (args[0] === 'keygen') {
+    keygen()
+} else {
+    grant()
+}
@@ -0,0 +1,143 @@
+import { describe, it, before, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { installCanvas } from '../test/canvas';
+import type { FakeContext2D, FakeWebGL } from '../test/canvas';
+import { CanvasRegistry } from './CanvasRegistry';
+import { CanvasHandler } from './CanvasHandler';
+import { encodeWatermark, verifyWatermark } from '../worker/watermark';
+
+describe('CanvasHandler watermark', () => {
+  const payload = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x01, 0x23, 0x45, 0x67]);
+  let handler: CanvasHandler;
+  let game: FakeContext2D;
+
+  before(() => {
+    installDom();
+    installCanvas();
+  });
+
+  beforeEach(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = 320;
+    canvas.height = 240;
+    document.body.appendChild(canvas);
+    game = canvas.getContext('2d') as unknown as FakeContext2D;
+    game.fill(40, 80, 120);
+
+    const registry = new CanvasRegistry();
+    registry.set(canvas);
+    handler = new CanvasHandler(registry);
+    handler.start();
+  });
+
+  it('loses a separate embed when the game redraws before the checkpoint', async () => {
+    assert.equal(await handler.embedAtFrameEnd(encodeWatermark(payload)), true);
+    game.fill(40, 80, 120);
+
+    const capture = await handler.captureAtFrameEnd(7, { watermark: true });
+    assert.equal(verifyWatermark(capture.watermark, payload)?.writable, false);
+  });
+
+  it('reads back a watermark embedded with the checkpoint despite the redraw', async () => {
+    await handler.embedAtFrameEnd(encodeWatermark(new Uint8Array(8)));
+    game.fill(40, 80, 120);
+
+    const capture = await handler.captureAtFrameEnd(7, { watermark: true, embed: encodeWatermark(payload) });
+    const check = verifyWatermark(capture.watermark, payload);
+    assert.equal(check?.writable, true);
+    assert.equal(check?.bitErrors, 0);
+    assert.ok(capture.pixels);
+  });
+});
+
+describe('CanvasHandler binding', () => {
+  let registry: CanvasRegistry;
+  let handler: CanvasHandler;
+
+  before(() => {
+    installDom();
+    installCanvas();
+  });
+
+  // The SDK is loaded before the game builds its canvas
+  beforeEach(() => {
+    registry = new CanvasRegistry();
+    handler = new CanvasHandler(registry);
+    handler.start();
+  });
+
+  function addCanvas(): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = 800;
+    canvas.height = 600;
+    document.body.appendChild(canvas);
+    registry.refresh();
+    return canvas;
+  }
+
+  it('leaves a late WebGL canvas to the game until it creates its context', () => {
+    const canvas = addCanvas();
+    assert.equal(handler.sampleRaw(7), null);
+
+    assert.ok(canvas.getContext('webgl'));
+    assert.ok(handler.sampleRaw(7));
+    canvas.remove();
+  });
+
+  it('attaches to a late 2D canvas once the game draws on it', () => {
+    const canvas = addCanvas();
+    assert.equal(handler.embedWatermark(encodeWatermark(new Uint8Array(8))), false);
+
+    (canvas.getContext('2d') as unknown as FakeContext2D).fill(10, 20, 30);
+    assert.equal(handler.embedWatermark(encodeWatermark(new Uint8Array(8))), true);
+    canvas.remove();
+  });
+});
+
+describe('CanvasHandler WebGL samples', () => {
+  // Straight-alpha frame; half the pixels translucent. Multiples of 5 at
+  // alpha 51 survive premultiplication exactly, as in a browser's 2D canvas.
+  const colour = (x: number, y: number): [number, number, number, number] =>
+    [(x * 5) % 255, (y * 5) % 255, ((x + y) * 5) % 255, (x + y) % 2 ? 51 : 255];
+
+  before(() => {
+    installDom();
+    installCanvas();
+  });
+
+  function handlerFor(kind: '2d' | 'webgl'): CanvasHandler {
+    const canvas = document.createElement('canvas');
+    canvas.width = 320;
+    canvas.height = 240;
+    document.body.appendChild(canvas);
+
+    if (kind === 'webgl') {
+      (canvas.getContext('webgl') as unknown as FakeWebGL).draw(colour);
+    } else {
+      const ctx = canvas.getContext('2d') as unknown as FakeContext2D;
+      const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) frame.data.set(colour(x, y), (y * canvas.width + x) * 4);
+      }
+      ctx.putImageData(frame, 0, 0);
+    }
+
+    const registry = new CanvasRegistry();
+    registry.set(canvas);
+    const handler = new CanvasHandler(registry);
+    handler.start();
+    return handler;
+  }
+
+  it('reads a WebGL frame as the 2D path reads the same frame', { timeout: 2000 }, async () => {
+    const twoD = handlerFor('2d');
+    const webgl = handlerFor('webgl');
+
+    for (const seed of [3, 1234567]) {
+      const capture = await webgl.captureAtFrameEnd(seed);
+      assert.deepEqual(capture.pixels, twoD.sampleRaw(seed));
+    }
+  });
+});
+
@@ -5,36 +5,67 @@
  * Returns raw Uint8Array - the Security Worker computes the hash.
  *
  * Handles both 2D and WebGL canvases (e.g., Construct 3, Phaser).
+ * The canvas comes from the shared CanvasRegistry and is rebound when replaced.
  */
 
+import type { CanvasRegistry } from './CanvasRegistry';
+import { PerceptualThumb, WatermarkRegion } from '../worker/types';
+import { SAMPLE_POINTS, samplePoint } from '../worker/sampling';
 import { log } from './logger';
 
+/**
+ * One checkpoint's canvas data: exact samples + perceptual thumbnail, or
+ * (bitmap mode) the whole frame for the Worker to sample.
+ */
+export interface CanvasCapture {
+  pixels: Uint8Array | null;
+  thumb: Uint8Array | null;
+  /** WatermarkRegion RGBA, only when requested (in page mode) */
+  watermark?: Uint8Array | null;
+  bitmap?: ImageBitmap;
+}
+
+export type CaptureMode = 'samples' | 'bitmap';
+
+export interface CaptureOptions {
+  mode?: CaptureMode;
+  /** Also read back the watermark region */
+  watermark?: boolean;
+  /**
+   * Watermark bytes to write right before the capture, in the same callback.
+   * A game that repaints every frame overwrites an earlier embed.
+   */
+  embed?: Uint8Array;
+}
+
 export class CanvasHandler {
   private _canvas: HTMLCanvasElement | null = null;
   private _ctx: CanvasRenderingContext2D | null = null;
   private _glCtx: WebGLRenderingContext | WebGL2RenderingContext | null = null;
   private _samplerCanvas: HTMLCanvasElement | null = null;
   private _samplerCtx: CanvasRenderingContext2D | null = null;
-  private _findInterval: number | null = null;
+  private _thumbCtx: CanvasRenderingContext2D | null = null;
   private _isStarted = false;
   private _isWebGL = false;
 
-  private static readonly _SAMPLE_POINTS = 8;
+  private static readonly _FRAME_TIMEOUT_MS = 100;
+
+  constructor(private _registry: CanvasRegistry) {
+    this._registry.onChange(canvas => {
+      if (this._isStarted) this._bind(canvas);
+    });
+  }
 
   start(): void {
     if (this._isStarted) return;
     this._isStarted = true;
-    this._findCanvas();
-    this._findInterval = window.setInterval(() => this._findCanvas(), 500);
+    this._bind(this._registry.canvas);
   }
 
   stop(): void {
     if (!this._isStarted) return;
     this._isStarted = false;
-    if (this._findInterval !== null) {
-      clearInterval(this._findInterval);
-      this._findInterval = null;
-    }
+    this._bind(null);
   }
 
   /**
@@ -42,7 +73,7 @@ export class CanvasHandler {
    * Seed is provided by GameBox (from server nonce). Worker hashes the result.
    */
   sampleRaw(seed: number): Uint8Array | null {
-    this._findCanvas();
+    this._syncCanvas();
     if (!this._canvas) return null;
 
     const ctx = this._getReadableContext();
@@ -52,14 +83,11 @@ export class CanvasHandler {
     const h = this._canvas.height;
     if (w === 0 || h === 0) return null;
 
-    const samples = new Uint8Array(CanvasHandler._SAMPLE_POINTS * 16);
+    const samples = new Uint8Array(SAMPLE_POINTS * 16);
 
     try {
-      for (let i = 0; i < CanvasHandler._SAMPLE_POINTS; i++) {
-        const pointSeed = this._prng(seed, i);
-        const x = pointSeed % w;
-        const y = Math.floor(pointSeed / w) % h;
-
+      for (let i = 0; i < SAMPLE_POINTS; i++) {
+        const { x, y } = samplePoint(seed, i, w, h);
         const block = ctx.getImageData(x, y, 2, 2).data;
         samples.set(block, i * 16);
       }
@@ -71,65 +99,185 @@ export class CanvasHandler {
   }
 
   /**
-   * Write raw watermark bytes into canvas LSB (steganography).
+   * Downscale the whole canvas to PerceptualThumb size and return its RGBA.
+   * The worker derives dHash/aHash from it.
+   */
+  thumbnail(): Uint8Array | null {
+    this._syncCanvas();
+    if (!this._canvas || this._canvas.width === 0 || this._canvas.height === 0) return null;
+
+    try {
+      if (!this._thumbCtx) {
+        const thumbCanvas = document.createElement('canvas');
+        thumbCanvas.width = PerceptualThumb.WIDTH;
+        thumbCanvas.height = PerceptualThumb.HEIGHT;
+        // No willReadFrequently: keep the scale-down on the GPU, read back 288 bytes
+        this._thumbCtx = thumbCanvas.getContext('2d');
+        if (!this._thumbCtx) return null;
+        this._thumbCtx.imageSmoothingQuality = 'medium';
+      }
+
+      const ctx = this._thumbCtx;
+      ctx.clearRect(0, 0, PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT);
+      ctx.drawImage(this._canvas, 0, 0, PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT);
+      return new Uint8Array(ctx.getImageData(0, 0, PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT).data);
+    } catch {
+      log.warn('Canvas thumbnail failed');
+      return null;
+    }
+  }
+
+  /**
+   * Canvas data for a checkpoint. For WebGL it is taken at the end of the next
+   * rendered frame (samples via readPixels): without preserveDrawingBuffer the
+   * buffer is cleared once composited, so a copy taken between frames is blank.
+   * Falls back to an immediate capture if no frame renders in time (hidden tab,
+   * paused loop).
+   *
+   * 'samples': exact samples (as sampleRaw) + thumbnail, read in the page.
+   * 'bitmap': an ImageBitmap of the frame for the Worker to sample - the page
+   * only pays for a GPU-side copy. Falls back to 'samples' where unsupported.
+   */
+  captureAtFrameEnd(seed: number, options: CaptureOptions = {}): Promise<CanvasCapture> {
+    this._syncCanvas();
+    const useBitmap = options.mode === 'bitmap' && typeof createImageBitmap === 'function';
+    const inPage = (frameEnd: boolean): CanvasCapture => ({
+      pixels: frameEnd ? this._readPixels(seed) : this.sampleRaw(seed),
+      thumb: this.thumbnail(),
+      ...(options.watermark ? { watermark: this.readWatermarkRegion(frameEnd) } : {}),
+    });
+    const capture = (frameEnd: boolean): Promise<CanvasCapture> => {
+      if (options.embed) this._embed(options.embed, frameEnd);
+      return useBitmap
+        ? this._captureBitmap(() => inPage(false))
+        : Promise.resolve(inPage(frameEnd));
+    };
+
+    if (!this._isWebGL || !this._glCtx) return capture(false);
+    return this._atFrameEnd(capture);
+  }
+
+  /**
+   * RGBA of the WatermarkRegion, for the Worker's decoder. frameEnd reads a
+   * WebGL canvas with readPixels (only valid right after the game's draw).
+   */
+  readWatermarkRegion(frameEnd = false): Uint8Array | null {
+    if (!this._canvas) return null;
+    const { X, Y, WIDTH, HEIGHT } = WatermarkRegion;
+
+    if (frameEnd) {
+      return this._withDefaultFramebuffer(gl => this._glReadRect(gl, X, Y, WIDTH, HEIGHT));
+    }
+
+    const ctx = this._getReadableContext();
+    if (!ctx) return null;
+    try {
+      return new Uint8Array(ctx.getImageData(X, Y, WIDTH, HEIGHT).data);
+    } catch {
+      log.warn('Watermark region read failed');
+      return null;
+    }
+  }
+
+  /**
+   * Write raw watermark bytes into canvas LSB (steganography), 2D canvases.
    * Watermark data is computed by Worker, sent here via GameBox.
+   * True only if the bits read back intact (alpha < 255 can lose them).
    */
   embedWatermark(data: Uint8Array): boolean {
+    this._syncCanvas();
     if (!this._ctx || !this._canvas) return false;
 
     try {
-      const region = { x: 0, y: 0, w: 64, h: 8 };
-      const imageData = this._ctx.getImageData(region.x, region.y, region.w, region.h);
-      const pixels = imageData.data;
-      const maxBits = Math.min(data.length * 8, Math.floor(pixels.length / 4));
-
-      for (let i = 0; i < maxBits; i++) {
-        const byteIdx = Math.floor(i / 8);
-        const bitIdx = 7 - (i % 8);
-        const bit = (data[byteIdx] >> bitIdx) & 1;
-        const pixelIdx = i * 4 + 2; // blue channel LSB
-        pixels[pixelIdx] = (pixels[pixelIdx] & 0xFE) | bit;
-      }
+      const { X, Y, WIDTH, HEIGHT } = WatermarkRegion;
+      const imageData = this._ctx.getImageData(X, Y, WIDTH, HEIGHT);
+      CanvasHandler._writeBits(imageData.data, data);
+      this._ctx.putImageData(imageData, X, Y);
 
-      this._ctx.putImageData(imageData, region.x, region.y);
-      return true;
+      return CanvasHandler._hasBits(this._ctx.getImageData(X, Y, WIDTH, HEIGHT).data, data);
     } catch {
       return false;
     }
   }
 
-  private _findCanvas(): void {
-    if (this._canvas) return;
+  /**
+   * embedWatermark for any canvas. WebGL is written at the end of the next
+   * rendered frame (between frames the buffer is about to be cleared).
+   * Resolves false if no frame renders in time.
+   *
+   * The bits last only until the game redraws the region - usually the next
+   * frame - so a later checkpoint won't find them. Checkpoints embed and read
+   * in one callback instead (CaptureOptions.embed).
+   */
+  embedAtFrameEnd(data: Uint8Array): Promise<boolean> {
+    this._syncCanvas();
+    if (!this._isWebGL || !this._glCtx) return Promise.resolve(this.embedWatermark(data));
+    return this._atFrameEnd(frameEnd => this._embed(data, frameEnd));
+  }
+
+  /**
+   * Pick up a replacement immediately instead of waiting for the registry poll,
+   * and attach once the game has created its context.
+   */
+  private _syncCanvas(): void {
+    const current = this._registry.canvas;
+    if (current !== this._canvas) this._bind(current);
+    else if (current && !this._ctx && !this._glCtx) this._attach(current);
+  }
+
+  /**
+   * WebGL can only be written right after the game's draw (frameEnd).
+   */
+  private _embed(data: Uint8Array, frameEnd: boolean): boolean {
+    if (!this._isWebGL) return this.embedWatermark(data);
+    return frameEnd && this._embedWebGL(data);
+  }
+
+  private _bind(canvas: HTMLCanvasElement | null): void {
+    if (canvas === this._canvas) return;
 
-    this._canvas = document.querySelector('canvas');
-    if (!this._canvas) return;
+    this._canvas = canvas;
+    this._ctx = null;
+    this._glCtx = null;
+    this._samplerCanvas = null;
+    this._samplerCtx = null;
+    this._isWebGL = false;
+    if (!canvas) return;
 
-    log.info(`Canvas found: ${this._canvas.width}x${this._canvas.height}`);
+    log.info(`Canvas found: ${canvas.width}x${canvas.height}`);
+    this._attach(canvas);
+  }
+
+  /**
+   * Take the game's context. Only asks for the kind the game created: any
+   * other getContext call on a fresh canvas would create that kind and lock
+   * the game out of its own. A canvas with no context seen yet stays
+   * unattached (retried on the next capture) unless the game registered it,
+   * whose context may predate the SDK and is probed 2D first, then WebGL.
+   */
+  private _attach(canvas: HTMLCanvasElement): void {
+    const kind = this._registry.contextKind(canvas);
+    if (!kind && !this._registry.isRegistered(canvas)) return;
 
     try {
-      this._ctx = this._canvas.getContext('2d', { willReadFrequently: true });
-      if (this._ctx) {
-        this._isWebGL = false;
-      } else {
-        this._glCtx = (this._canvas.getContext('webgl2') as WebGL2RenderingContext)
-          || (this._canvas.getContext('webgl') as WebGLRenderingContext);
+      if (!kind || kind === '2d') {
+        this._ctx = canvas.getContext('2d', { willReadFrequently: true });
+      }
+      if (!this._ctx && kind !== '2d') {
+        if (kind !== 'webgl') this._glCtx = canvas.getContext('webgl2') as WebGL2RenderingContext | null;
+        if (!this._glCtx) this._glCtx = canvas.getContext('webgl') as WebGLRenderingContext | null;
 
         if (this._glCtx) {
           this._isWebGL = true;
           this._samplerCanvas = document.createElement('canvas');
-          this._samplerCanvas.width = this._canvas.width;
-          this._samplerCanvas.height = this._canvas.height;
+          this._samplerCanvas.width = canvas.width;
+          this._samplerCanvas.height = canvas.height;
           this._samplerCtx = this._samplerCanvas.getContext('2d', { willReadFrequently: true });
         }
       }
     } catch (err) {
       log.warn('Failed to get canvas context', err);
     }
-
-    if (this._findInterval !== null) {
-      clearInterval(this._findInterval);
-      this._findInterval = null;
-    }
   }
 
   private _getReadableContext(): CanvasRenderingContext2D | null {
@@ -155,12 +303,213 @@ export class CanvasHandler {
   }
 
   /**
-   * Simple PRNG from seed+index. Not crypto - just deterministic point selection.
+   * Run fn right after the game draws its next frame (frameEnd = true), or
+   * immediately-ish if no frame renders in time (hidden tab, paused loop).
+   */
+  private _atFrameEnd<T>(fn: (frameEnd: boolean) => T | Promise<T>): Promise<T> {
+    return new Promise(resolve => {
+      let done = false;
+      const finish = (frameEnd: boolean) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        cancelAnimationFrame(frame);
+        resolve(fn(frameEnd));
+      };
+
+      const timer = window.setTimeout(() => finish(false), CanvasHandler._FRAME_TIMEOUT_MS);
+      // The game registered its next-frame callback during the previous frame,
+      // so this one runs after it: right after the draw, before compositing
+      const frame = requestAnimationFrame(() => finish(true));
+    });
+  }
+
+  /**
+   * Read the region, then repaint only the pixels whose blue LSB must change
+   * with 1-pixel-high scissored clears - no shader, no texture, and it works on
+   * multisampled default framebuffers where blitFramebuffer can't.
+   */
+  private _embedWebGL(data: Uint8Array): boolean {
+    const { X, Y, WIDTH, HEIGHT } = WatermarkRegion;
+
+    return this._withDefaultFramebuffer(gl => {
+      const before = this._glReadRect(gl, X, Y, WIDTH, HEIGHT);
+      const target = before.slice();
+      const bits = CanvasHandler._writeBits(target, data);
+
+      const scissorTest = gl.isEnabled(gl.SCISSOR_TEST);
+      const dither = gl.isEnabled(gl.DITHER);
+      const scissorBox = gl.getParameter(gl.SCISSOR_BOX) as Int32Array;
+      const clearColor = gl.getParameter(gl.COLOR_CLEAR_VALUE) as Float32Array;
+      const colorMask = gl.getParameter(gl.COLOR_WRITEMASK) as boolean[];
+
+      try {
+        gl.enable(gl.SCISSOR_TEST);
+        gl.disable(gl.DITHER);
+        gl.colorMask(true, true, true, true);
+
+        for (let i = 0; i < bits;) {
+          const o = i * 4;
+          if (target[o + 2] === before[o + 2]) { i++; continue; }
+
+          // Extend the run over neighbours in the same row needing the same colour
+          let run = 1;
+          while (
+            i + run < bits &&
+            (i + run) % WIDTH !== 0 &&
+            target[(i + run) * 4 + 2] !== before[(i + run) * 4 + 2] &&
+            target[(i + run) * 4] === target[o] &&
+            target[(i + run) * 4 + 1] === target[o + 1] &&
+            target[(i + run) * 4 + 2] === target[o + 2] &&
+            target[(i + run) * 4 + 3] === target[o + 3]
+          ) run++;
+
+          const row = Math.floor(i / WIDTH);
+          gl.scissor(X + (i % WIDTH), gl.canvas.height - (Y + row) - 1, run, 1);
+          gl.clearColor(target[o] / 255, target[o + 1] / 255, target[o + 2] / 255, target[o + 3] / 255);
+          gl.clear(gl.COLOR_BUFFER_BIT);
+          i += run;
+        }
+      } finally {
+        if (!scissorTest) gl.disable(gl.SCISSOR_TEST);
+        if (dither) gl.enable(gl.DITHER);
+        gl.scissor(scissorBox[0], scissorBox[1], scissorBox[2], scissorBox[3]);
+        gl.clearColor(clearColor[0], clearColor[1], clearColor[2], clearColor[3]);
+        gl.colorMask(colorMask[0], colorMask[1], colorMask[2], colorMask[3]);
+      }
+
+      return CanvasHandler._hasBits(this._glReadRect(gl, X, Y, WIDTH, HEIGHT), data);
+    }) ?? false;
+  }
+
+  /**
+   * Set blue-channel LSBs of an RGBA region from data (MSB first).
+   * Returns the number of bits written.
+   */
+  private static _writeBits(pixels: Uint8Array | Uint8ClampedArray, data: Uint8Array): number {
+    const maxBits = Math.min(data.length * 8, Math.floor(pixels.length / 4));
+    for (let i = 0; i < maxBits; i++) {
+      const bit = (data[i >> 3] >> (7 - (i & 7))) & 1;
+      const pixelIdx = i * 4 + 2; // blue channel LSB
+      pixels[pixelIdx] = (pixels[pixelIdx] & 0xFE) | bit;
+    }
+    return maxBits;
+  }
+
+  private static _hasBits(pixels: Uint8Array | Uint8ClampedArray, data: Uint8Array): boolean {
+    const maxBits = Math.min(data.length * 8, Math.floor(pixels.length / 4));
+    for (let i = 0; i < maxBits; i++) {
+      if ((pixels[i * 4 + 2] & 1) !== ((data[i >> 3] >> (7 - (i & 7))) & 1)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * The bitmap snapshots the canvas synchronously; only decoding is async.
    */
-  private _prng(seed: number, index: number): number {
-    let h = seed ^ (index * 2654435761);
-    h = Math.imul(h ^ (h >>> 16), 2246822507);
-    h = Math.imul(h ^ (h >>> 13), 3266489909);
-    return (h ^ (h >>> 16)) >>> 0;
+  private _captureBitmap(inPage: () => CanvasCapture): Promise<CanvasCapture> {
+    if (!this._canvas || this._canvas.width === 0 || this._canvas.height === 0) {
+      return Promise.resolve(inPage());
+    }
+
+    return createImageBitmap(this._canvas).then(
+      bitmap => ({ pixels: null, thumb: null, bitmap }),
+      () => {
+        log.warn('createImageBitmap failed, sampling in page');
+        return inPage();
+      }
+    );
+  }
+
+  /**
+   * Read the sample blocks straight from the default framebuffer.
+   * 16 bytes per point, 8 tiny reads: cheap enough for low-end Android.
+   * Returned as getImageData would: top-down and, for a premultipliedAlpha
+   * drawing buffer (the WebGL default), un-premultiplied - so canvasHash
+   * does not depend on the capture path.
+   */
+  private _readPixels(seed: number): Uint8Array | null {
+    return this._withDefaultFramebuffer(gl => {
+      const w = gl.canvas.width;
+      const h = gl.canvas.height;
+      if (w === 0 || h === 0) return null;
+
+      const samples = new Uint8Array(SAMPLE_POINTS * 16);
+      for (let i = 0; i < SAMPLE_POINTS; i++) {
+        const { x, y } = samplePoint(seed, i, w, h);
+        samples.set(this._glReadRect(gl, x, y, 2, 2), i * 16);
+      }
+      if (gl.getContextAttributes()?.premultipliedAlpha !== false) CanvasHandler._unpremultiply(samples);
+      return samples;
+    });
+  }
+
+  /**
+   * Premultiplied RGBA → straight RGBA, in place. Fully transparent pixels
+   * read as 0,0,0,0, as from getImageData.
+   */
+  private static _unpremultiply(rgba: Uint8Array): void {
+    for (let i = 0; i < rgba.length; i += 4) {
+      const a = rgba[i + 3];
+      if (a === 255) continue;
+      for (let c = 0; c < 3; c++) {
+        rgba[i + c] = a === 0 ? 0 : Math.min(255, Math.round((rgba[i + c] * 255) / a));
+      }
+    }
+  }
+
+  /**
+   * Run reads/writes against the default framebuffer, restoring whatever
+   * framebuffers / pack buffer the game left bound.
+   */
+  private _withDefaultFramebuffer<T>(
+    fn: (gl: WebGLRenderingContext | WebGL2RenderingContext) => T
+  ): T | null {
+    const gl = this._glCtx;
+    if (!gl || !this._canvas || gl.isContextLost()) return null;
+
+    const gl2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext
+      ? gl
+      : null;
+    const prevRead = gl.getParameter(gl2 ? gl2.READ_FRAMEBUFFER_BINDING : gl.FRAMEBUFFER_BINDING);
+    const prevDraw = gl2 ? gl2.getParameter(gl2.DRAW_FRAMEBUFFER_BINDING) : prevRead;
+    const prevPack = gl2 ? gl2.getParameter(gl2.PIXEL_PACK_BUFFER_BINDING) : null;
+
+    try {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+      if (gl2 && prevPack) gl2.bindBuffer(gl2.PIXEL_PACK_BUFFER, null);
+      return fn(gl);
+    } catch {
+      log.warn('WebGL framebuffer access failed');
+      return null;
+    } finally {
+      if (gl2) {
+        gl2.bindFramebuffer(gl2.READ_FRAMEBUFFER, prevRead);
+        gl2.bindFramebuffer(gl2.DRAW_FRAMEBUFFER, prevDraw);
+        if (prevPack) gl2.bindBuffer(gl2.PIXEL_PACK_BUFFER, prevPack);
+      } else {
+        gl.bindFramebuffer(gl.FRAMEBUFFER, prevRead);
+      }
+    }
+  }
+
+  /**
+   * readPixels in canvas coordinates, returned top-down like getImageData.
+   * GL rows run bottom-up, so rows are flipped. Out-of-bounds pixels are left
+   * untouched (zero), as getImageData does.
+   */
+  private _glReadRect(
+    gl: WebGLRenderingContext | WebGL2RenderingContext,
+    x: number, y: number, w: number, h: number
+  ): Uint8Array {
+    const raw = new Uint8Array(w * h * 4);
+    gl.readPixels(x, gl.canvas.height - y - h, w, h, gl.RGBA, gl.UNSIGNED_BYTE, raw);
+
+    const rowBytes = w * 4;
+    const out = new Uint8Array(raw.length);
+    for (let r = 0; r < h; r++) {
+      out.set(raw.subarray((h - 1 - r) * rowBytes, (h - r) * rowBytes), r * rowBytes);
+    }
+    return out;
   }
 }
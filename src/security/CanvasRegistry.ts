@@ -0,0 +1,194 @@
+/**
+ * CanvasRegistry (SDK Shim)
+ *
+ * Single source of truth for "the game canvas", shared by CanvasHandler,
+ * InputCapture, the Streamr capture path and the init style fix.
+ *
+ * Resolution order:
+ *   1. Canvas registered by the game: digitapSDK('setCanvas', elementOrSelector)
+ *   2. Auto-detect: the largest canvas in the document (a UI overlay canvas is
+ *      usually smaller than the game canvas; ties keep the current one, then
+ *      document order)
+ *
+ * Re-resolves on a cheap 500ms poll so late-created and recreated canvases are
+ * picked up; subscribers are notified only when the resolved element changes.
+ *
+ * Also records which context the page creates on each canvas. A canvas only
+ * ever gets one context type, so the shim must not call getContext on a canvas
+ * the game hasn't set up yet: a '2d' probe would leave the game's later
+ * getContext('webgl') returning null.
+ */
+
+import { log } from './logger';
+
+export type CanvasTarget = HTMLCanvasElement | string;
+
+export type ContextKind = '2d' | 'webgl' | 'webgl2';
+
+// Per canvas, the first context successfully created on it
+const contexts = new WeakMap<HTMLCanvasElement, ContextKind>();
+const tracked = new WeakSet<object>();
+
+/**
+ * Wrap HTMLCanvasElement.prototype.getContext (once) to record context kinds.
+ * Contexts created before the SDK loaded are not seen.
+ */
+function trackContexts(): void {
+  if (typeof HTMLCanvasElement === 'undefined') return;
+  const proto = HTMLCanvasElement.prototype;
+  if (tracked.has(proto)) return;
+  tracked.add(proto);
+
+  const getContext = proto.getContext as (this: HTMLCanvasElement, kind: string, ...args: unknown[]) => unknown;
+  Object.defineProperty(proto, 'getContext', {
+    configurable: true,
+    writable: true,
+    value(this: HTMLCanvasElement, kind: string, ...args: unknown[]) {
+      const ctx = getContext.call(this, kind, ...args);
+      if (ctx && !contexts.has(this)) {
+        const normalized = kind === 'experimental-webgl' ? 'webgl' : kind;
+        if (normalized === '2d' || normalized === 'webgl' || normalized === 'webgl2') {
+          contexts.set(this, normalized);
+        }
+      }
+      return ctx;
+    },
+  });
+}
+
+export class CanvasRegistry {
+  private _canvas: HTMLCanvasElement | null = null;
+  private _target: CanvasTarget | null = null;
+  private _listeners: ((canvas: HTMLCanvasElement | null) => void)[] = [];
+  private _pollTimer: number | null = null;
+
+  private static readonly _POLL_MS = 500;
+
+  constructor() {
+    trackContexts();
+  }
+
+  start(): void {
+    if (this._pollTimer !== null) return;
+    this.refresh();
+    this._pollTimer = window.setInterval(() => this.refresh(), CanvasRegistry._POLL_MS);
+  }
+
+  stop(): void {
+    if (this._pollTimer !== null) {
+      clearInterval(this._pollTimer);
+      this._pollTimer = null;
+    }
+  }
+
+  /**
+   * Current game canvas (re-resolved if the previous one left the document).
+   */
+  get canvas(): HTMLCanvasElement | null {
+    if (!this._canvas || !this._canvas.isConnected) this.refresh();
+    return this._canvas;
+  }
+
+  /**
+   * Register the game canvas explicitly, by element or CSS selector.
+   * A selector keeps working when the game recreates its canvas.
+   */
+  set(target: CanvasTarget | null): void {
+    if (typeof target === 'string' || target === null || target instanceof HTMLCanvasElement) {
+      this._target = target;
+      log.info('Game canvas registered:', target);
+      this.refresh();
+    } else {
+      log.warn('setCanvas expects a <canvas> element or a selector');
+    }
+  }
+
+  /**
+   * Context the page created on canvas, or null if none has been seen (yet).
+   */
+  contextKind(canvas: HTMLCanvasElement): ContextKind | null {
+    return contexts.get(canvas) ?? null;
+  }
+
+  /**
+   * Whether canvas is the one the game registered with setCanvas. The game
+   * registers it once set up, so its context may be probed even if it was
+   * created before the SDK loaded.
+   */
+  isRegistered(canvas: HTMLCanvasElement): boolean {
+    if (this._target instanceof HTMLCanvasElement) return this._target === canvas;
+    if (typeof this._target !== 'string') return false;
+    try {
+      return canvas.matches(this._target);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Subscribe to canvas changes. Called immediately with the current canvas.
+   */
+  onChange(listener: (canvas: HTMLCanvasElement | null) => void): void {
+    this._listeners.push(listener);
+    listener(this._canvas);
+  }
+
+  refresh(): void {
+    const next = this._resolve();
+    if (next === this._canvas) return;
+
+    this._canvas = next;
+    if (next) log.info(`Game canvas: ${next.width}x${next.height}`);
+
+    for (const listener of this._listeners) {
+      try {
+        listener(next);
+      } catch {
+        // A failing subscriber must not block the others
+      }
+    }
+  }
+
+  private _resolve(): HTMLCanvasElement | null {
+    if (this._target instanceof HTMLCanvasElement) {
+      if (this._target.isConnected) return this._target;
+    } else if (typeof this._target === 'string') {
+      try {
+        const el = document.querySelector(this._target);
+        if (el instanceof HTMLCanvasElement) return el;
+      } catch {
+        // Invalid selector - fall back to auto-detect
+      }
+    }
+
+    return this._detect();
+  }
+
+  private _detect(): HTMLCanvasElement | null {
+    const canvases = document.getElementsByTagName('canvas');
+    let best: HTMLCanvasElement | null = null;
+    let bestArea = -1;
+
+    for (let i = 0; i < canvases.length; i++) {
+      const area = CanvasRegistry._area(canvases[i]);
+      if (area > bestArea) {
+        best = canvases[i];
+        bestArea = area;
+      }
+    }
+
+    // Keep the current canvas on a tie so equal-sized canvases don't flip-flop
+    if (this._canvas && this._canvas.isConnected && CanvasRegistry._area(this._canvas) >= bestArea) {
+      return this._canvas;
+    }
+    return best;
+  }
+
+  /**
+   * Backing-store size, not layout size: reading layout every poll could force
+   * a synchronous reflow mid-frame on low-end devices.
+   */
+  private static _area(canvas: HTMLCanvasElement): number {
+    return canvas.width * canvas.height;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { GameBoxTransport } from './GameBoxTransport';
+import type { TransportMessage } from './GameBoxTransport';
+import { SecurityResponseSchemas } from '../types/schema';
+
+const ORIGIN = 'https://gamebox.wam.app';
+
+describe('GameBoxTransport', () => {
+  let transport: GameBoxTransport;
+  let received: TransportMessage[];
+  const channels: MessageChannel[] = [];
+
+  before(() => {
+    installDom();
+    received = [];
+    transport = new GameBoxTransport();
+    transport.start();
+    // What SecurityBridge does with SDK_SESSION_INIT
+    transport.on('_digitapSecurity', (message) => {
+      received.push(message);
+      if (message.ports[0]) transport.adopt(message.ports[0], message.origin);
+    });
+  });
+
+  after(() => {
+    for (const channel of channels) channel.port1.close();
+  });
+
+  // jsdom's MessageEvent only takes its own ports; the transport reads plain fields
+  const fromParent = (data: Record<string, unknown>, ports: MessagePort[] = []) =>
+    window.dispatchEvent(Object.assign(new Event('message'), {
+      data: { controller: '_digitapSecurity', ...data },
+      origin: ORIGIN,
+      source: window.parent,
+      ports,
+    }));
+
+  const init = (sessionId: string, requestId?: string) => {
+    const channel = new MessageChannel();
+    channels.push(channel);
+    fromParent({ type: 'SDK_SESSION_INIT', sessionId, ...(requestId ? { requestId } : {}) }, [channel.port2]);
+    return channel;
+  };
+
+  const nextMessage = (port: MessagePort) =>
+    new Promise<Record<string, any>>(resolve => {
+      port.onmessage = (event) => resolve(event.data);
+    });
+
+  const ping = () => transport.post(SecurityResponseSchemas, {
+    controller: '_digitapSecurity', type: 'SDK_META_RESPONSE',
+  }, '*');
+
+  it('moves to the port of the first session init', { timeout: 2000 }, async () => {
+    const first = init('s1');
+    assert.equal(transport.isPrivate, true);
+
+    const reply = nextMessage(first.port1);
+    ping();
+    assert.equal((await reply).type, 'SDK_META_RESPONSE');
+  });
+
+  it('drops window messages once on the port', () => {
+    const before = received.length;
+    fromParent({ type: 'SDK_META_REQUEST' });
+    fromParent({ type: 'SDK_SESSION_INIT', sessionId: 'no-port' });
+    assert.equal(received.length, before);
+  });
+
+  it('adopts the fresh port of a second session init', { timeout: 2000 }, async () => {
+    const first = channels[0];
+    const closed = new Promise(resolve => first.port1.addEventListener('close', resolve));
+    const second = init('s2');
+
+    assert.equal(received[received.length - 1].data.sessionId, 's2');
+    await closed;
+
+    const reply = nextMessage(second.port1);
+    ping();
+    assert.equal((await reply).type, 'SDK_META_RESPONSE');
+  });
+
+  it('answers a resent session init on its new port when the ACK was lost', { timeout: 2000 }, async () => {
+    const lost = init('s3', 'r7');
+    const lostReplies: unknown[] = [];
+    lost.port1.onmessage = (event) => lostReplies.push(event.data);
+    const closed = new Promise(resolve => lost.port1.addEventListener('close', resolve));
+
+    // GameBox heard nothing back and resends the same request with a new port
+    const resent = init('s3', 'r7');
+    assert.deepEqual(received.slice(-2).map(m => m.data.requestId), ['r7', 'r7']);
+    await closed;
+
+    const reply = nextMessage(resent.port1);
+    ping();
+    assert.equal((await reply).type, 'SDK_META_RESPONSE');
+    assert.deepEqual(lostReplies, []);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * GameBoxTransport (SDK Shim)
+ *
+ * The one channel between the shim and GameBox, shared by the SecurityBridge,
+ * the _digitapApp command listener and the Streamr relay:
+ *   1. Until the handshake: a single window 'message' listener (parent only,
+ *      our controllers only) and window.parent.postMessage
+ *   2. After SDK_SESSION_INIT transfers a MessagePort: everything flows over
+ *      the port, and protocol messages on the window are dropped - other
+ *      frames and scripts can no longer inject or read them. Only a new
+ *      SDK_SESSION_INIT from the parent carrying a fresh port gets through,
+ *      and moves the channel to that port
+ *
+ * Validation stays with each handler (acceptMessage / postMessageChecked).
+ */
+
+import { log } from './logger';
+import { postMessageChecked } from './messages';
+import type { SchemaTable } from '../types/schema';
+
+/**
+ * An inbound message, from the window or the port. `origin` is the GameBox
+ * origin: the event's for window messages, the handshake's for port messages.
+ */
+export interface TransportMessage {
+  data: Record<string, any>;
+  origin: string;
+  ports: readonly MessagePort[];
+}
+
+export type TransportHandler = (message: TransportMessage) => void;
+
+// Streamr replies travel without a controller
+const CONTROLLERS = ['_digitapApp', '_digitapSecurity'];
+
+export class GameBoxTransport {
+  private _handlers = new Map<string, TransportHandler[]>();
+  private _port: MessagePort | null = null;
+  private _portOrigin = '*';
+  private _isStarted = false;
+
+  start(): void {
+    if (this._isStarted) return;
+    this._isStarted = true;
+    window.addEventListener('message', (event) => this._onWindowMessage(event));
+  }
+
+  /**
+   * Receive messages for one controller. Handlers run in registration order.
+   */
+  on(controller: string, handler: TransportHandler): void {
+    const list = this._handlers.get(controller) ?? [];
+    list.push(handler);
+    this._handlers.set(controller, list);
+  }
+
+  /**
+   * Move to the private channel. `origin` is the origin of the
+   * SDK_SESSION_INIT that carried the port.
+   */
+  adopt(port: MessagePort, origin: string): void {
+    if (this._port === port) return;
+    this._port?.close();
+
+    this._port = port;
+    this._portOrigin = origin;
+    port.onmessage = (event) => this._dispatch(event.data, origin, event.ports);
+    port.start();
+    log.info('🔒 GameBox traffic moved to MessageChannel', { origin });
+  }
+
+  /**
+   * True once traffic flows over the MessagePort.
+   */
+  get isPrivate(): boolean {
+    return this._port !== null;
+  }
+
+  /**
+   * Send to GameBox: over the port once adopted, otherwise to window.parent
+   * with `targetOrigin`.
+   */
+  post(table: SchemaTable, message: object, targetOrigin: string, transfer: Transferable[] = []): void {
+    if (this._port) {
+      postMessageChecked(this._port, table, message, this._portOrigin, transfer);
+    } else {
+      postMessageChecked(window.parent, table, message, targetOrigin, transfer);
+    }
+  }
+
+  private _onWindowMessage(event: MessageEvent): void {
+    // STRICT FILTER: Only accept messages from parent window (GameBox)
+    if (event.source !== window.parent) return;
+
+    // STRICT FILTER: Must carry one of our controllers (not MetaMask, extensions)
+    const data = event.data;
+    if (!data || typeof data !== 'object' || !CONTROLLERS.includes(data.controller)) return;
+
+    if (this._port && !GameBoxTransport._isNewChannel(data, event.ports)) {
+      log.warn(`Dropped ${data.controller}/${data.type} sent outside the MessageChannel`);
+      return;
+    }
+
+    this._dispatch(data, event.origin, event.ports);
+  }
+
+  /**
+   * A session init from the parent with a fresh port: GameBox lost our end
+   * (a new client instance, or a retry after a lost ACK). The handler adopts
+   * the new port, which closes the old one.
+   */
+  private static _isNewChannel(data: Record<string, any>, ports: readonly MessagePort[]): boolean {
+    return data.controller === '_digitapSecurity' && data.type === 'SDK_SESSION_INIT' && ports.length > 0;
+  }
+
+  private _dispatch(data: unknown, origin: string, ports: readonly MessagePort[]): void {
+    if (!data || typeof data !== 'object') return;
+    const message = { data: data as Record<string, any>, origin, ports };
+
+    log.info('📩 GameBox message received:', {
+      origin,
+      controller: message.data.controller,
+      type: message.data.type,
+    });
+
+    for (const handler of this._handlers.get(message.data.controller) ?? []) {
+      try {
+        handler(message);
+      } catch {
+        // One handler failing must not starve the others
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, before, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { CanvasRegistry } from './CanvasRegistry';
+import { InputCapture } from './InputCapture';
+import { EventCode, PointerKind } from '../worker/types';
+
+describe('InputCapture', () => {
+  let registry: CanvasRegistry;
+  let input: InputCapture;
+  let canvas: HTMLCanvasElement;
+
+  before(() => {
+    installDom();
+  });
+
+  beforeEach(() => {
+    canvas = document.createElement('canvas');
+    document.body.appendChild(canvas);
+    registry = new CanvasRegistry();
+    registry.set(canvas);
+    input = new InputCapture(registry);
+    input.start();
+  });
+
+  afterEach(() => {
+    input.stop();
+    canvas.remove();
+  });
+
+  const press = (type: string, x: number, init: PointerEventInit = {}) =>
+    canvas.dispatchEvent(new PointerEvent(type, {
+      bubbles: true, clientX: x, clientY: 20, pointerId: 1, pointerType: 'touch', ...init,
+    }));
+
+  it('records one tuple per canvas pointerdown', () => {
+    press('pointerdown', 10);
+
+    const events = input.flush();
+    assert.equal(events.length, 1);
+    assert.deepEqual(
+      { x: events[0].x, y: events[0].y, e: events[0].e, p: events[0].p, k: events[0].k },
+      { x: 10, y: 20, e: EventCode.DOWN, p: 1, k: PointerKind.TOUCH }
+    );
+  });
+
+  it('records one tuple per press after the canvas changes', () => {
+    const next = document.createElement('canvas');
+    document.body.appendChild(next);
+    registry.set(next);
+    canvas.remove();
+    canvas = next;
+
+    press('pointerdown', 10);
+    press('pointerup', 10);
+
+    assert.deepEqual(input.flush().map(ev => ev.e), [EventCode.DOWN, EventCode.UP]);
+  });
+
+  it('flags script-dispatched presses as untrusted', () => {
+    press('pointerdown', 10);
+    assert.equal(input.flush()[0].u, 1);
+  });
+
+  it('gives overlapping keys their own slot, never the key itself', () => {
+    const key = (type: string, code: string) => window.dispatchEvent(new KeyboardEvent(type, { code }));
+    key('keydown', 'KeyW');
+    key('keydown', 'KeyA');
+    key('keyup', 'KeyW');
+    key('keydown', 'KeyD');
+    key('keyup', 'KeyA');
+    key('keyup', 'KeyD');
+
+    const events = input.flush();
+    assert.deepEqual(events.map(ev => ev.p), [0, 1, 0, 0, 1, 0]);
+    assert.ok(events.every(ev => ev.x === InputCapture.keyClass('KeyW')));
+  });
+});
@@ -11,9 +11,33 @@
  *   - Neither → mousedown/mouseup only
  *
  * This prevents the "6 handlers fire per tap" problem that causes jank on low-end Android.
+ *
+ * Keyboard (keydown/keyup) is captured alongside, as a key class only - never
+ * the actual key - so text typed into the game cannot be reconstructed. Each
+ * held key gets a slot (p) while it is down, so the worker can pair the down
+ * and up of two overlapping keys of the same class.
+ *
+ * Movement of the same family (pointermove/touchmove/mousemove) is captured
+ * only while pressed: the listener is attached on down and removed on up, and
+ * samples are decimated by time and distance under a per-window budget.
+ *
+ * Every pointer tuple carries its pointer id and kind (touch/pen/mouse), so
+ * concurrent fingers stay distinguishable.
+ *
+ * Gamepads are polled once per frame, only while one is connected. Only
+ * changes are recorded: button down/up and quantized axis moves.
+ *
+ * Events that were not generated by the user agent (isTrusted === false) are
+ * still recorded, but flagged (u = 1).
+ *
+ * All listeners live on window (capture phase), which sees canvas events
+ * before the game does. Never add the same listeners on the canvas: each
+ * press would be recorded twice.
  */
 
 import type { RawEventTuple } from '../worker/types';
+import { EventCode, KeyClass, PointerKind } from '../worker/types';
+import type { CanvasRegistry } from './CanvasRegistry';
 import { log } from './logger';
 
 export class InputCapture {
@@ -21,27 +45,84 @@ export class InputCapture {
   private _isStarted = false;
   private _boundCapture: (e: Event) => void;
   private _events: readonly string[] = [];
-  private _canvas: HTMLCanvasElement | null = null;
-  private _canvasPollTimer: number | null = null;
+  private _moveEvent = '';
+  private _cancelEvent = '';
+  private _isTrackingMove = false;
+  private _moveCount = 0;
+  private _activePointers = new Set<number>();
+  private _lastMoves = new Map<number, { t: number; x: number; y: number }>();
+  private _heldKeys = new Map<string, number>();
+  private _padFrame: number | null = null;
+  private _padCount = 0;
+  private _padState = new Map<number, { buttons: boolean[]; axes: number[] }>();
+  private _boundPadConnection: () => void;
 
   private static readonly _MAX_BUFFER = 5000;
+  private static readonly _KEY_EVENTS = ['keydown', 'keyup'] as const;
+  private static readonly _MOVE_EVENTS: Record<string, string> = {
+    pointerdown: 'pointermove',
+    touchstart: 'touchmove',
+    mousedown: 'mousemove',
+  };
+  private static readonly _CANCEL_EVENTS: Record<string, string> = {
+    pointerdown: 'pointercancel',
+    touchstart: 'touchcancel',
+  };
 
-  constructor() {
+  // Move decimation: at most one sample per 16ms and per 2px, 600 per window
+  private static readonly _MOVE_MIN_INTERVAL_MS = 16;
+  private static readonly _MOVE_MIN_DISTANCE_PX = 2;
+  private static readonly _MAX_MOVES_PER_WINDOW = 600;
+
+  // Gamepad: axes below the deadzone read as 0, others snap to 0.05 steps (20 per unit)
+  private static readonly _PAD_DEADZONE = 0.15;
+  private static readonly _PAD_AXIS_STEPS = 20;
+  private static readonly _MAX_PAD_PER_WINDOW = 600;
+
+  private static readonly _KEY_CLASSES: Record<string, number> = {
+    ArrowLeft: KeyClass.ARROW_LEFT,
+    ArrowUp: KeyClass.ARROW_UP,
+    ArrowRight: KeyClass.ARROW_RIGHT,
+    ArrowDown: KeyClass.ARROW_DOWN,
+    Space: KeyClass.SPACE,
+    Enter: KeyClass.ENTER,
+    NumpadEnter: KeyClass.ENTER,
+    Escape: KeyClass.ESCAPE,
+    ShiftLeft: KeyClass.MODIFIER,
+    ShiftRight: KeyClass.MODIFIER,
+    ControlLeft: KeyClass.MODIFIER,
+    ControlRight: KeyClass.MODIFIER,
+    AltLeft: KeyClass.MODIFIER,
+    AltRight: KeyClass.MODIFIER,
+    MetaLeft: KeyClass.MODIFIER,
+    MetaRight: KeyClass.MODIFIER,
+  };
+
+  constructor(private _registry: CanvasRegistry) {
     this._boundCapture = (e: Event) => this._capture(e);
+    this._boundPadConnection = () => this._updatePadPolling();
   }
 
   start(): void {
     if (this._isStarted) return;
     this._isStarted = true;
 
-    this._events = InputCapture._detectEvents();
+    this._events = InputCapture.detectEvents();
+    this._moveEvent = InputCapture._MOVE_EVENTS[this._events[0]];
+    this._cancelEvent = InputCapture._CANCEL_EVENTS[this._events[0]] ?? '';
 
     this._events.forEach(type => {
       window.addEventListener(type, this._boundCapture, { capture: true, passive: true });
     });
+    InputCapture._KEY_EVENTS.forEach(type => {
+      window.addEventListener(type, this._boundCapture, { capture: true, passive: true });
+    });
+
+    window.addEventListener('gamepadconnected', this._boundPadConnection);
+    window.addEventListener('gamepaddisconnected', this._boundPadConnection);
+    this._updatePadPolling();
 
-    this._pollForCanvas();
-    log.info('InputCapture listening for:', this._events.join(', '));
+    log.info('InputCapture listening for:', [...this._events, ...InputCapture._KEY_EVENTS].join(', '));
   }
 
   stop(): void {
@@ -51,27 +132,39 @@ export class InputCapture {
     this._events.forEach(type => {
       window.removeEventListener(type, this._boundCapture, { capture: true } as EventListenerOptions);
     });
-    this._detachCanvas();
-
-    if (this._canvasPollTimer !== null) {
-      clearInterval(this._canvasPollTimer);
-      this._canvasPollTimer = null;
-    }
+    InputCapture._KEY_EVENTS.forEach(type => {
+      window.removeEventListener(type, this._boundCapture, { capture: true } as EventListenerOptions);
+    });
+    this._stopMoveTracking();
+    window.removeEventListener('gamepadconnected', this._boundPadConnection);
+    window.removeEventListener('gamepaddisconnected', this._boundPadConnection);
+    this._stopPadPolling();
 
+    this._heldKeys.clear();
     this._buffer = [];
   }
 
   flush(): RawEventTuple[] {
     const out = this._buffer;
     this._buffer = [];
+    this._moveCount = 0;
+    this._padCount = 0;
     return out;
   }
 
+  /**
+   * The game canvas the captured presses land on, once found.
+   */
+  get canvas(): HTMLCanvasElement | null {
+    return this._registry.canvas;
+  }
+
   /**
    * Pick ONE event family. Pointer Events already unify touch + mouse,
    * so we never need to listen for more than one family.
+   * Returned as [down, up].
    */
-  private static _detectEvents(): readonly string[] {
+  static detectEvents(): readonly string[] {
     if (typeof PointerEvent !== 'undefined') {
       return ['pointerdown', 'pointerup'];
     }
@@ -81,60 +174,248 @@ export class InputCapture {
     return ['mousedown', 'mouseup'];
   }
 
+  /**
+   * Move event of the family detectEvents() picks.
+   */
+  static detectMoveEvent(): string {
+    return InputCapture._MOVE_EVENTS[InputCapture.detectEvents()[0]];
+  }
+
+  /**
+   * Map a KeyboardEvent.code (physical key, layout-independent) to its KeyClass.
+   */
+  static keyClass(code: string): number {
+    const known = InputCapture._KEY_CLASSES[code];
+    if (known !== undefined) return known;
+    if (code.startsWith('Key')) return KeyClass.LETTER;
+    if (code.startsWith('Digit') || code.startsWith('Numpad')) return KeyClass.DIGIT;
+    return KeyClass.OTHER;
+  }
+
   private _capture(e: Event): void {
     if (this._buffer.length >= InputCapture._MAX_BUFFER) return;
 
     const now = performance.now();
     const type = e.type;
+
+    if (type === 'keydown' || type === 'keyup') {
+      const key = e as KeyboardEvent;
+      // Auto-repeat would flood the buffer while a key is held
+      if (key.repeat) return;
+      this._record(e, {
+        t: now,
+        x: InputCapture.keyClass(key.code),
+        y: 0,
+        e: type === 'keydown' ? EventCode.KEY_DOWN : EventCode.KEY_UP,
+        p: this._keySlot(key.code, type === 'keydown'),
+      });
+      return;
+    }
+
+    if (type === this._moveEvent) {
+      this._captureMove(e, now);
+      return;
+    }
+
     const isDown = type === 'pointerdown' || type === 'touchstart' || type === 'mousedown';
 
-    let x = 0, y = 0;
+    for (const pt of InputCapture._points(e)) {
+      if (isDown) {
+        this._activePointers.add(pt.p);
+        this._lastMoves.set(pt.p, { t: now, x: pt.x, y: pt.y });
+      } else {
+        this._activePointers.delete(pt.p);
+        this._lastMoves.delete(pt.p);
+      }
+      this._record(e, { t: now, x: pt.x, y: pt.y, e: isDown ? EventCode.DOWN : EventCode.UP, p: pt.p, k: pt.k });
+    }
 
-    if ('clientX' in e) {
-      x = (e as PointerEvent | MouseEvent).clientX;
-      y = (e as PointerEvent | MouseEvent).clientY;
-    } else if ('touches' in e) {
-      const touches = (e as TouchEvent).touches;
-      const changed = (e as TouchEvent).changedTouches;
-      const list = touches.length > 0 ? touches : changed;
-      if (list.length > 0) {
-        x = list[0].clientX;
-        y = list[0].clientY;
+    if (isDown) {
+      this._startMoveTracking();
+    } else if (this._activePointers.size === 0) {
+      this._stopMoveTracking();
+    }
+  }
+
+  /**
+   * Script-dispatched events (new PointerEvent(...), dispatchEvent) have
+   * isTrusted === false - flag them so the worker can tell them apart.
+   */
+  private _record(e: Event, tuple: RawEventTuple): void {
+    if (!e.isTrusted) tuple.u = 1;
+    this._buffer.push(tuple);
+  }
+
+  /**
+   * Slot of a held key: the lowest one free when it goes down, released when
+   * it comes up. Holds are paired by the physical key while only the slot
+   * leaves the shim.
+   */
+  private _keySlot(code: string, isDown: boolean): number {
+    let slot = this._heldKeys.get(code);
+    if (slot === undefined) {
+      const taken = new Set(this._heldKeys.values());
+      slot = 0;
+      while (taken.has(slot)) slot++;
+      if (isDown) this._heldKeys.set(code, slot);
+    } else if (!isDown) {
+      this._heldKeys.delete(code);
+    }
+    return slot;
+  }
+
+  private _captureMove(e: Event, now: number): void {
+    for (const pt of InputCapture._points(e)) {
+      if (this._moveCount >= InputCapture._MAX_MOVES_PER_WINDOW) return;
+
+      const last = this._lastMoves.get(pt.p);
+      if (last) {
+        if (now - last.t < InputCapture._MOVE_MIN_INTERVAL_MS) continue;
+        if (Math.abs(pt.x - last.x) + Math.abs(pt.y - last.y) < InputCapture._MOVE_MIN_DISTANCE_PX) continue;
       }
+
+      this._lastMoves.set(pt.p, { t: now, x: pt.x, y: pt.y });
+      this._moveCount++;
+      this._record(e, { t: now, x: pt.x, y: pt.y, e: EventCode.MOVE, p: pt.p, k: pt.k });
     }
+  }
 
-    this._buffer.push({ t: now, x, y, e: isDown ? 1 : 0 });
+  /**
+   * Move and cancel listeners live only while at least one pointer is down.
+   * Cancel (palm rejection, gesture takeover) is recorded as a release.
+   */
+  private _startMoveTracking(): void {
+    if (this._isTrackingMove || !this._moveEvent) return;
+    this._isTrackingMove = true;
+    window.addEventListener(this._moveEvent, this._boundCapture, { capture: true, passive: true });
+    if (this._cancelEvent) {
+      window.addEventListener(this._cancelEvent, this._boundCapture, { capture: true, passive: true });
+    }
   }
 
-  private _pollForCanvas(): void {
-    this._tryAttachCanvas();
+  private _stopMoveTracking(): void {
+    if (!this._isTrackingMove) return;
+    this._isTrackingMove = false;
+    this._activePointers.clear();
+    this._lastMoves.clear();
+    window.removeEventListener(this._moveEvent, this._boundCapture, { capture: true } as EventListenerOptions);
+    if (this._cancelEvent) {
+      window.removeEventListener(this._cancelEvent, this._boundCapture, { capture: true } as EventListenerOptions);
+    }
+  }
 
-    this._canvasPollTimer = window.setInterval(() => {
-      if (this._canvas) {
-        clearInterval(this._canvasPollTimer!);
-        this._canvasPollTimer = null;
-        return;
+  /**
+   * One entry per pointer the event concerns. Touch events report every
+   * changed touch (two fingers landing together = two downs); pointer and
+   * mouse events report one.
+   */
+  private static _points(e: Event): { x: number; y: number; p: number; k: number }[] {
+    if ('changedTouches' in e) {
+      const changed = (e as TouchEvent).changedTouches;
+      const out: { x: number; y: number; p: number; k: number }[] = [];
+      for (let i = 0; i < changed.length; i++) {
+        out.push({ x: changed[i].clientX, y: changed[i].clientY, p: changed[i].identifier, k: PointerKind.TOUCH });
       }
-      this._tryAttachCanvas();
-    }, 500);
+      return out;
+    }
+    if ('pointerId' in e) {
+      const pe = e as PointerEvent;
+      return [{ x: pe.clientX, y: pe.clientY, p: pe.pointerId, k: InputCapture._pointerKind(pe.pointerType) }];
+    }
+    if ('clientX' in e) {
+      const me = e as MouseEvent;
+      return [{ x: me.clientX, y: me.clientY, p: 0, k: PointerKind.MOUSE }];
+    }
+    return [];
   }
 
-  private _tryAttachCanvas(): void {
-    const canvas = document.querySelector('canvas');
-    if (!canvas || canvas === this._canvas) return;
+  private static _pointerKind(pointerType: string): number {
+    switch (pointerType) {
+      case 'mouse': return PointerKind.MOUSE;
+      case 'touch': return PointerKind.TOUCH;
+      case 'pen': return PointerKind.PEN;
+      default: return PointerKind.UNKNOWN;
+    }
+  }
 
-    this._canvas = canvas;
-    this._events.forEach(type => {
-      canvas.addEventListener(type, this._boundCapture, { capture: true, passive: true });
-    });
-    log.info('InputCapture attached to canvas element');
+  private static _gamepads(): (Gamepad | null)[] {
+    try {
+      return typeof navigator.getGamepads === 'function' ? Array.from(navigator.getGamepads()) : [];
+    } catch {
+      // Blocked by permissions policy inside some iframes
+      return [];
+    }
   }
 
-  private _detachCanvas(): void {
-    if (!this._canvas) return;
-    this._events.forEach(type => {
-      this._canvas!.removeEventListener(type, this._boundCapture, { capture: true } as EventListenerOptions);
-    });
-    this._canvas = null;
+  /**
+   * Run the per-frame poll only while at least one gamepad is connected.
+   */
+  private _updatePadPolling(): void {
+    const connected = InputCapture._gamepads().some(pad => pad?.connected);
+    if (connected && this._padFrame === null && this._isStarted) {
+      this._padFrame = requestAnimationFrame(() => this._pollPads());
+      log.info('InputCapture polling gamepads');
+    } else if (!connected) {
+      this._stopPadPolling();
+    }
+  }
+
+  private _stopPadPolling(): void {
+    if (this._padFrame !== null) {
+      cancelAnimationFrame(this._padFrame);
+      this._padFrame = null;
+    }
+    this._padState.clear();
+  }
+
+  private _pollPads(): void {
+    this._padFrame = null;
+    const now = performance.now();
+    let connected = false;
+
+    for (const pad of InputCapture._gamepads()) {
+      if (!pad?.connected) continue;
+      connected = true;
+
+      let prev = this._padState.get(pad.index);
+      if (!prev) {
+        // First sight of this pad: take its resting state as the baseline
+        prev = { buttons: pad.buttons.map(b => b.pressed), axes: pad.axes.map(InputCapture._quantizeAxis) };
+        this._padState.set(pad.index, prev);
+        continue;
+      }
+
+      pad.buttons.forEach((button, i) => {
+        if (button.pressed === prev!.buttons[i]) return;
+        prev!.buttons[i] = button.pressed;
+        this._pushPad(now, i, button.pressed ? button.value : 0,
+          button.pressed ? EventCode.PAD_BUTTON_DOWN : EventCode.PAD_BUTTON_UP, pad.index);
+      });
+
+      pad.axes.forEach((raw, i) => {
+        const value = InputCapture._quantizeAxis(raw);
+        if (value === prev!.axes[i]) return;
+        prev!.axes[i] = value;
+        this._pushPad(now, i, value, EventCode.PAD_AXIS, pad.index);
+      });
+    }
+
+    if (connected && this._isStarted) {
+      this._padFrame = requestAnimationFrame(() => this._pollPads());
+    } else {
+      this._stopPadPolling();
+    }
+  }
+
+  private _pushPad(t: number, x: number, y: number, e: number, p: number): void {
+    if (this._buffer.length >= InputCapture._MAX_BUFFER) return;
+    if (this._padCount >= InputCapture._MAX_PAD_PER_WINDOW) return;
+    this._padCount++;
+    this._buffer.push({ t, x, y, e, p, k: PointerKind.GAMEPAD });
+  }
+
+  private static _quantizeAxis(value: number): number {
+    if (Math.abs(value) < InputCapture._PAD_DEADZONE) return 0;
+    return Math.round(value * InputCapture._PAD_AXIS_STEPS) / InputCapture._PAD_AXIS_STEPS;
   }
 }
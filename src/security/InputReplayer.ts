@@ -0,0 +1,278 @@
+/**
+ * InputReplayer (SDK Shim)
+ *
+ * Feeds a recorded RawEventTuple stream back into the game as synthetic
+ * pointer/touch/mouse events, preserving the original timing.
+ * Keyboard tuples are replayed for the key classes that identify one key
+ * (arrows, space, enter, escape); letter/digit/modifier classes are skipped.
+ * Gamepad tuples are skipped - the Gamepad API cannot be driven from script.
+ *
+ * Uses the same event family InputCapture.detectEvents() picks on this
+ * platform, and dispatches on the canvas InputCapture is attached to.
+ * Coordinates are scaled from the recorded viewport to the current one.
+ *
+ * Replayed events are script-dispatched (isTrusted = false) - this is a QA and
+ * review tool, not something a real session should ever contain.
+ */
+
+import type { RawEventTuple } from '../worker/types';
+import { EventCode, KeyClass, PointerKind } from '../worker/types';
+import { InputCapture } from './InputCapture';
+import { log } from './logger';
+
+export interface ReplayState {
+  playing: boolean;
+  position: number;
+  duration: number;
+  speed: number;
+  cursor: number;
+  total: number;
+}
+
+const REPLAY_KEYS: Record<number, { key: string; code: string; keyCode: number }> = {
+  [KeyClass.ARROW_LEFT]: { key: 'ArrowLeft', code: 'ArrowLeft', keyCode: 37 },
+  [KeyClass.ARROW_UP]: { key: 'ArrowUp', code: 'ArrowUp', keyCode: 38 },
+  [KeyClass.ARROW_RIGHT]: { key: 'ArrowRight', code: 'ArrowRight', keyCode: 39 },
+  [KeyClass.ARROW_DOWN]: { key: 'ArrowDown', code: 'ArrowDown', keyCode: 40 },
+  [KeyClass.SPACE]: { key: ' ', code: 'Space', keyCode: 32 },
+  [KeyClass.ENTER]: { key: 'Enter', code: 'Enter', keyCode: 13 },
+  [KeyClass.ESCAPE]: { key: 'Escape', code: 'Escape', keyCode: 27 },
+};
+
+export class InputReplayer {
+  private _events: RawEventTuple[] = [];
+  private _offsets: number[] = [];
+  private _scaleX = 1;
+  private _scaleY = 1;
+  private _cursor = 0;
+  private _speed = 1;
+  private _playing = false;
+  private _position = 0;
+  private _playStartedAt = 0;
+  private _timer: number | null = null;
+  private _pressed = new Map<number, { x: number; y: number; k: number }>();
+  private _onStateCallback: ((state: ReplayState) => void) | null = null;
+
+  constructor(private _input: InputCapture) {}
+
+  onState(callback: (state: ReplayState) => void): void {
+    this._onStateCallback = callback;
+  }
+
+  /**
+   * Load a recording. screenW/screenH are the viewport it was captured at
+   * (SDK_CHECKPOINT_RESPONSE.screenW/H).
+   */
+  load(events: RawEventTuple[], screenW: number, screenH: number): void {
+    this.pause();
+    this._events = events.slice().sort((a, b) => a.t - b.t);
+    const t0 = this._events.length > 0 ? this._events[0].t : 0;
+    this._offsets = this._events.map(ev => ev.t - t0);
+    this._scaleX = screenW > 0 ? window.innerWidth / screenW : 1;
+    this._scaleY = screenH > 0 ? window.innerHeight / screenH : 1;
+    this._cursor = 0;
+    this._position = 0;
+    this._pressed.clear();
+    log.info(`InputReplayer loaded ${this._events.length} events`);
+    this._emitState();
+  }
+
+  play(): void {
+    if (this._playing || this._cursor >= this._events.length) return;
+    this._playing = true;
+    this._playStartedAt = performance.now();
+    this._emitState();
+    this._tick();
+  }
+
+  pause(): void {
+    if (!this._playing) return;
+    this._position = this._currentPosition();
+    this._playing = false;
+    this._clearTimer();
+    this._emitState();
+  }
+
+  /**
+   * Jump to a position (ms from the first event). Releases any held presses
+   * so the game never sees a down without its up.
+   */
+  seek(position: number): void {
+    const wasPlaying = this._playing;
+    this.pause();
+    this._releasePress();
+
+    this._position = Math.max(0, Math.min(position, this.duration));
+    this._cursor = this._offsets.findIndex(o => o >= this._position);
+    if (this._cursor === -1) this._cursor = this._events.length;
+
+    if (wasPlaying) {
+      this.play();
+    } else {
+      this._emitState();
+    }
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) return;
+    const wasPlaying = this._playing;
+    this.pause();
+    this._speed = speed;
+    if (wasPlaying) {
+      this.play();
+    } else {
+      this._emitState();
+    }
+  }
+
+  get duration(): number {
+    return this._offsets.length > 0 ? this._offsets[this._offsets.length - 1] : 0;
+  }
+
+  get state(): ReplayState {
+    return {
+      playing: this._playing,
+      position: this._playing ? this._currentPosition() : this._position,
+      duration: this.duration,
+      speed: this._speed,
+      cursor: this._cursor,
+      total: this._events.length,
+    };
+  }
+
+  private _tick(): void {
+    this._timer = null;
+    if (!this._playing) return;
+
+    const position = this._currentPosition();
+    while (this._cursor < this._events.length && this._offsets[this._cursor] <= position) {
+      this._dispatch(this._events[this._cursor]);
+      this._cursor++;
+    }
+
+    if (this._cursor >= this._events.length) {
+      this._position = this.duration;
+      this._playing = false;
+      this._emitState();
+      return;
+    }
+
+    const delay = (this._offsets[this._cursor] - position) / this._speed;
+    this._timer = window.setTimeout(() => this._tick(), Math.max(0, delay));
+  }
+
+  private _currentPosition(): number {
+    return this._position + (performance.now() - this._playStartedAt) * this._speed;
+  }
+
+  private _clearTimer(): void {
+    if (this._timer !== null) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+  }
+
+  private _releasePress(): void {
+    for (const [p, at] of Array.from(this._pressed)) {
+      this._fire('up', at.x, at.y, p, at.k);
+    }
+  }
+
+  private _dispatch(ev: RawEventTuple): void {
+    switch (ev.e) {
+      case EventCode.DOWN:
+        this._fire('down', ev.x * this._scaleX, ev.y * this._scaleY, ev.p ?? 1, ev.k ?? PointerKind.TOUCH);
+        break;
+      case EventCode.UP:
+        this._fire('up', ev.x * this._scaleX, ev.y * this._scaleY, ev.p ?? 1, ev.k ?? PointerKind.TOUCH);
+        break;
+      case EventCode.MOVE:
+        if (this._pressed.has(ev.p ?? 1)) {
+          this._fire('move', ev.x * this._scaleX, ev.y * this._scaleY, ev.p ?? 1, ev.k ?? PointerKind.TOUCH);
+        }
+        break;
+      case EventCode.KEY_DOWN:
+      case EventCode.KEY_UP:
+        this._fireKey(ev.e === EventCode.KEY_DOWN ? 'keydown' : 'keyup', ev.x);
+        break;
+    }
+  }
+
+  private _fireKey(type: 'keydown' | 'keyup', keyClass: number): void {
+    const key = REPLAY_KEYS[keyClass];
+    if (!key) return;
+
+    try {
+      const target = document.activeElement ?? document.body;
+      // keyCode/which are legacy but still read by many game engines
+      const event = new KeyboardEvent(type, { key: key.key, code: key.code, bubbles: true, cancelable: true, composed: true });
+      Object.defineProperty(event, 'keyCode', { get: () => key.keyCode });
+      Object.defineProperty(event, 'which', { get: () => key.keyCode });
+      target.dispatchEvent(event);
+    } catch (err) {
+      log.warn('InputReplayer key dispatch failed', err);
+    }
+  }
+
+  private _fire(phase: 'down' | 'up' | 'move', x: number, y: number, pointerId: number, kind: number): void {
+    const [downType, upType] = InputCapture.detectEvents();
+    const type = phase === 'down' ? downType : phase === 'up' ? upType : InputCapture.detectMoveEvent();
+    const isDown = phase !== 'up';
+    const target = this._input.canvas ?? document.elementFromPoint(x, y) ?? document.body;
+
+    if (isDown) {
+      this._pressed.set(pointerId, { x, y, k: kind });
+    } else {
+      this._pressed.delete(pointerId);
+    }
+
+    const init = {
+      bubbles: true,
+      cancelable: true,
+      composed: true,
+      clientX: x,
+      clientY: y,
+      button: phase === 'move' ? -1 : 0,
+      buttons: isDown ? 1 : 0,
+    };
+
+    try {
+      let event: Event;
+      if (type.startsWith('pointer')) {
+        event = new PointerEvent(type, {
+          ...init,
+          pointerId,
+          pointerType: InputReplayer._pointerType(kind),
+          isPrimary: pointerId === Math.min(pointerId, ...Array.from(this._pressed.keys())),
+        });
+      } else if (type.startsWith('touch')) {
+        const touch = (id: number, at: { x: number; y: number }) =>
+          new Touch({ identifier: id, target, clientX: at.x, clientY: at.y });
+        const active = Array.from(this._pressed, ([id, at]) => touch(id, at));
+        event = new TouchEvent(type, {
+          ...init,
+          touches: active,
+          targetTouches: active,
+          changedTouches: [touch(pointerId, { x, y })],
+        });
+      } else {
+        event = new MouseEvent(type, init);
+      }
+      target.dispatchEvent(event);
+    } catch (err) {
+      log.warn('InputReplayer dispatch failed', err);
+    }
+  }
+
+  private static _pointerType(kind: number): string {
+    switch (kind) {
+      case PointerKind.MOUSE: return 'mouse';
+      case PointerKind.PEN: return 'pen';
+      default: return 'touch';
+    }
+  }
+
+  private _emitState(): void {
+    this._onStateCallback?.(this.state);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSync, sign, type KeyObject } from 'node:crypto';
+import { OriginPolicy } from './OriginPolicy';
+
+const PARTNER = 'https://partner.example';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function keyPair(): { spki: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { spki: publicKey.export({ type: 'spki', format: 'der' }).toString('base64'), privateKey };
+}
+
+/**
+ * A grant as `npm run origin-grant` signs it.
+ */
+function signGrant(privateKey: KeyObject, origins: string[], exp = Date.now() + DAY_MS) {
+  const payload = JSON.stringify({ origins, exp });
+  const signature = sign('sha256', Buffer.from(payload), { key: privateKey, dsaEncoding: 'ieee-p1363' }).toString('base64');
+  return { payload, signature };
+}
+
+describe('OriginPolicy grants', () => {
+  const platform = keyPair();
+
+  it('applies a grant signed with the build key', async () => {
+    const policy = new OriginPolicy([], platform.spki);
+    const { payload, signature } = signGrant(platform.privateKey, [PARTNER]);
+
+    assert.equal(policy.allows(PARTNER), false);
+    assert.equal(await policy.grant(PARTNER, payload, signature), true);
+    assert.equal(policy.allows(PARTNER), true);
+    assert.equal(await policy.verified(PARTNER), true);
+  });
+
+  it('rejects a grant signed with another key', async () => {
+    const policy = new OriginPolicy([], platform.spki);
+    const { payload, signature } = signGrant(keyPair().privateKey, [PARTNER]);
+
+    assert.equal(await policy.grant(PARTNER, payload, signature), false);
+    assert.equal(policy.allows(PARTNER), false);
+  });
+
+  it('rejects an expired grant', async () => {
+    const policy = new OriginPolicy([], platform.spki);
+    const { payload, signature } = signGrant(platform.privateKey, [PARTNER], Date.now() - 1);
+
+    assert.equal(await policy.grant(PARTNER, payload, signature), false);
+    assert.equal(policy.allows(PARTNER), false);
+  });
+
+  it('rejects a grant delivered by an origin it does not list', async () => {
+    const policy = new OriginPolicy([], platform.spki);
+    const { payload, signature } = signGrant(platform.privateKey, [PARTNER]);
+
+    assert.equal(await policy.grant('https://copycat.example', payload, signature), false);
+    assert.equal(policy.allows('https://copycat.example'), false);
+    assert.equal(policy.allows(PARTNER), false);
+  });
+
+  it('rejects a signature that is not base64', async () => {
+    const policy = new OriginPolicy([], platform.spki);
+    const { payload } = signGrant(platform.privateKey, [PARTNER]);
+
+    assert.equal(await policy.grant(PARTNER, payload, 'not base64!'), false);
+    assert.equal(policy.allows(PARTNER), false);
+  });
+
+  it('ignores grants when the key is missing or malformed', async () => {
+    const { payload, signature } = signGrant(platform.privateKey, [PARTNER]);
+
+    for (const key of [null, '%%%']) {
+      const policy = new OriginPolicy([], key);
+      assert.equal(await policy.grant(PARTNER, payload, signature), false);
+      assert.equal(policy.allows(PARTNER), false);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * OriginPolicy (SDK Shim)
+ *
+ * Which GameBox origins may command the game:
+ *   1. The build profile's origins (src/config/environments.json). An entry
+ *      like 'https://*.staging.wam.app' matches any subdomain (preview deploys)
+ *   2. Origins added at runtime by an SDK_ORIGIN_GRANT that GameBox forwards
+ *      from the platform backend: `payload` is JSON `{ origins, exp }`,
+ *      `signature` an ECDSA P-256 / SHA-256 signature of it (base64, r||s)
+ *      under the profile's originGrantKey (base64 SPKI)
+ *
+ * A grant only counts when it lists the origin that delivers it, and only
+ * until `exp` (ms since epoch). Builds without a key ignore grants.
+ */
+
+import { log } from './logger';
+
+interface OriginGrant {
+  origins: string[];
+  exp: number;
+}
+
+export class OriginPolicy {
+  private _exact = new Set<string>();
+  private _patterns: RegExp[] = [];
+  /** Granted origin → expiry */
+  private _granted = new Map<string, number>();
+  private _key: Promise<CryptoKey | null>;
+  /** Settles once every grant received so far is verified or rejected */
+  private _verifying: Promise<void> = Promise.resolve();
+
+  constructor(origins: readonly string[], grantKey: string | null) {
+    for (const origin of origins) {
+      if (origin.includes('://*.')) {
+        this._patterns.push(OriginPolicy._pattern(origin));
+      } else {
+        this._exact.add(origin);
+      }
+    }
+    this._key = grantKey ? OriginPolicy._importKey(grantKey) : Promise.resolve(null);
+  }
+
+  allows(origin: string): boolean {
+    if (this._exact.has(origin)) return true;
+    if (this._patterns.some(pattern => pattern.test(origin))) return true;
+
+    const exp = this._granted.get(origin);
+    if (exp === undefined) return false;
+    if (exp > Date.now()) return true;
+    this._granted.delete(origin);
+    return false;
+  }
+
+  /**
+   * `allows(origin)` once pending grants are verified. Commands that arrive
+   * right behind a grant wait for it instead of being dropped.
+   */
+  verified(origin: string): Promise<boolean> {
+    return this._verifying.then(() => this.allows(origin));
+  }
+
+  /**
+   * Verify and apply a grant delivered by `sender`. Resolves true if it was applied.
+   */
+  grant(sender: string, payload: string, signature: string): Promise<boolean> {
+    const result = this._verifying.then(() => this._apply(sender, payload, signature));
+    this._verifying = result.then(() => undefined);
+    return result;
+  }
+
+  private async _apply(sender: string, payload: string, signature: string): Promise<boolean> {
+    try {
+      const key = await this._key;
+      if (!key) {
+        log.warn('Origin grant ignored: this build has no grant key');
+        return false;
+      }
+
+      const valid = await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        OriginPolicy._base64ToBytes(signature),
+        new TextEncoder().encode(payload)
+      );
+      if (!valid) {
+        log.warn(`Origin grant from ${sender} has an invalid signature`);
+        return false;
+      }
+
+      const grant = JSON.parse(payload) as OriginGrant;
+      if (!Array.isArray(grant.origins) || typeof grant.exp !== 'number') {
+        log.warn(`Origin grant from ${sender} is malformed`);
+        return false;
+      }
+      if (grant.exp <= Date.now()) {
+        log.warn(`Origin grant from ${sender} expired`);
+        return false;
+      }
+      // A grant copied to another site must not open the door for that site
+      if (!grant.origins.includes(sender)) {
+        log.warn(`Origin grant does not cover its sender ${sender}`);
+        return false;
+      }
+
+      for (const origin of grant.origins) {
+        if (typeof origin === 'string') this._granted.set(origin, grant.exp);
+      }
+      log.info('🔑 Origin grant applied', grant);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private static async _importKey(spki: string): Promise<CryptoKey | null> {
+    try {
+      return await crypto.subtle.importKey(
+        'spki',
+        OriginPolicy._base64ToBytes(spki),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+    } catch {
+      log.error('Origin grant key is not a valid P-256 SPKI key');
+      return null;
+    }
+  }
+
+  /**
+   * 'https://*.staging.wam.app' → one or more subdomain labels, same scheme, no port.
+   */
+  private static _pattern(origin: string): RegExp {
+    const [scheme, host] = origin.split('://*.');
+    const escape = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escape(scheme)}://([a-z0-9-]+\\.)+${escape(host)}$`, 'i');
+  }
+
+  private static _base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  }
+}
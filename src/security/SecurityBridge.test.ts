@@ -0,0 +1,101 @@
+import { describe, it, before, beforeEach, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { SecurityBridge } from './SecurityBridge';
+import { Capability } from '../worker/types';
+import { PROTOCOL_VERSION } from '../worker/protocol';
+
+const CHANNEL = { protocolVersion: PROTOCOL_VERSION, capabilities: [Capability.CHANNEL] };
+
+describe('SecurityBridge', () => {
+  let bridge: SecurityBridge;
+  let sent: Record<string, any>[] = [];
+
+  // One bridge: its window listener outlives stop(). Each test starts a session.
+  before(() => {
+    installDom();
+    // jsdom's top window is its own parent: catch what the shim sends to GameBox
+    mock.method(window, 'postMessage', (message: Record<string, any>) => sent.push(message));
+    bridge = new SecurityBridge();
+    bridge.init();
+  });
+
+  beforeEach(() => {
+    sent = [];
+  });
+
+  after(() => {
+    bridge.stop();
+    mock.restoreAll();
+  });
+
+  const request = (data: Record<string, unknown>) =>
+    window.dispatchEvent(new MessageEvent('message', {
+      data: { controller: '_digitapSecurity', ...data },
+      origin: 'https://gamebox.wam.app',
+      source: window,
+    }));
+
+  // jsdom's MessageEvent only takes its own ports; the transport reads plain fields
+  const requestWithPort = (data: Record<string, unknown>, port: MessagePort) =>
+    window.dispatchEvent(Object.assign(new Event('message'), {
+      data: { controller: '_digitapSecurity', ...data },
+      origin: 'https://gamebox.wam.app',
+      source: window,
+      ports: [port],
+    }));
+
+  const replies = (requestId: string) =>
+    sent.filter(m => m.type === 'SDK_CHECKPOINT_RESPONSE' && m.requestId === requestId);
+
+  it('answers a stale window instead of leaving it to time out', async () => {
+    request({ type: 'SDK_SESSION_INIT', sessionId: 's1' });
+    request({ type: 'SDK_CHECKPOINT_REQUEST', requestId: 'r1', windowIndex: 0 });
+    request({ type: 'SDK_CHECKPOINT_REQUEST', requestId: 'r2', windowIndex: 0 });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const [fresh] = replies('r1');
+    const [stale] = replies('r2');
+    assert.equal(fresh.stale, undefined);
+    assert.equal(stale.windowIndex, 0);
+    assert.equal(stale.stale, true);
+    assert.deepEqual(stale.events, []);
+  });
+
+  it('repeats the stale answer for a retried request', async () => {
+    request({ type: 'SDK_SESSION_INIT', sessionId: 's1' });
+    request({ type: 'SDK_CHECKPOINT_REQUEST', requestId: 'r1', windowIndex: 1 });
+    request({ type: 'SDK_CHECKPOINT_REQUEST', requestId: 'r2', windowIndex: 0 });
+    request({ type: 'SDK_CHECKPOINT_REQUEST', requestId: 'r2', windowIndex: 0 });
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const retried = replies('r2');
+    assert.equal(retried.length, 2);
+    assert.ok(retried.every(m => m.stale === true));
+    assert.equal(retried[1].duplicate, true);
+  });
+
+  // Last: the bridge stays on the MessageChannel afterwards
+  it('answers a new client that reuses a request id on its fresh port', { timeout: 2000 }, async () => {
+    const first = new MessageChannel();
+    const second = new MessageChannel();
+    const ack = (port: MessagePort) => new Promise<Record<string, any>>(resolve => {
+      port.onmessage = (event) => resolve(event.data);
+    });
+
+    try {
+      const firstAck = ack(first.port1);
+      requestWithPort({ type: 'SDK_SESSION_INIT', requestId: 'r1', sessionId: 's1', ...CHANNEL }, first.port2);
+      assert.equal((await firstAck).type, 'SDK_SESSION_INIT_ACK');
+
+      const secondAck = ack(second.port1);
+      requestWithPort({ type: 'SDK_SESSION_INIT', requestId: 'r1', sessionId: 's2', ...CHANNEL }, second.port2);
+      const reply = await secondAck;
+      assert.equal(reply.type, 'SDK_SESSION_INIT_ACK');
+      assert.equal(reply.duplicate, undefined);
+    } finally {
+      first.port1.close();
+      second.port1.close();
+    }
+  });
+});
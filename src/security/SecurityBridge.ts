@@ -5,32 +5,61 @@
  * NO crypto, NO hashing, NO sketch building, NO rolling state.
  *
  * Responsibilities:
- *   1. Listen for postMessage requests from GameBox
+ *   1. Listen for requests from GameBox (GameBoxTransport: window, then the
+ *      MessagePort transferred with SDK_SESSION_INIT)
  *   2. Collect raw data (input events, canvas pixels, metadata)
- *   3. Send raw data back to GameBox
+ *   3. Send raw data back to GameBox, echoing the requestId / windowIndex
  *
  * All computation happens in the Security Worker (GameBox side).
  */
 
+import { CanvasRegistry } from './CanvasRegistry';
 import { InputCapture } from './InputCapture';
 import { CanvasHandler } from './CanvasHandler';
+import type { CanvasCapture } from './CanvasHandler';
 import { MetadataCollector } from './MetadataCollector';
+import { InputReplayer } from './InputReplayer';
+import { GameBoxTransport } from './GameBoxTransport';
+import type { TransportMessage } from './GameBoxTransport';
 import { log } from './logger';
+import { acceptMessage } from './messages';
+import { SecurityRequestSchemas, SecurityResponseSchemas } from '../types/schema';
+import type { SecurityRequest } from '../types/schema';
+import { Capability } from '../worker/types';
+import type { ProtocolHello } from '../worker/types';
+import { PROTOCOL_VERSION, hasCapability, negotiate } from '../worker/protocol';
+
+// Input replay is a QA/review tool - only development builds accept it
+const REPLAY_TYPES = process.env.NODE_ENV !== 'production'
+  ? ['SDK_REPLAY_LOAD', 'SDK_REPLAY_CONTROL']
+  : [];
 
 export class SecurityBridge {
-  private _input = new InputCapture();
-  private _canvas = new CanvasHandler();
+  private _transport = new GameBoxTransport();
+  private _canvases = new CanvasRegistry();
+  private _input = new InputCapture(this._canvases);
+  private _canvas = new CanvasHandler(this._canvases);
   private _meta = new MetadataCollector();
+  private _replay: InputReplayer | null = null;
   private _isInitialized = false;
   private _onSessionInitCallback: (() => void) | null = null;
+  /** Agreement from the last SDK_SESSION_INIT; null for a pre-negotiation GameBox */
+  private _protocol: ProtocolHello | null = null;
+  /** Recent requestIds; reply is null while the request is still being answered */
+  private _replies = new Map<string, { reply: Record<string, unknown> | null; at: number }>();
+  /** Highest checkpoint windowIndex taken this session */
+  private _lastWindow = -1;
 
   private static readonly _CONTROLLER = '_digitapSecurity';
+  // GameBox retries a lost reply well within this; older ids are forgotten
+  private static readonly _REPLY_TTL_MS = 60000;
   private static readonly _VALID_TYPES = [
     'SDK_SESSION_INIT',
     'SDK_CHECKPOINT_REQUEST',
     'SDK_CHECKPOINT_ACK',
     'SDK_CANVAS_EMBED_REQUEST',
     'SDK_META_REQUEST',
+    ...REPLAY_TYPES,
   ];
 
   onSessionInit(callback: () => void): void {
@@ -41,6 +70,8 @@ export class SecurityBridge {
     if (this._isInitialized) return;
     this._isInitialized = true;
 
+    this._transport.start();
+    this._canvases.start();
     this._input.start();
     this._canvas.start();
     this._listen();
@@ -53,43 +84,107 @@ export class SecurityBridge {
     this._isInitialized = false;
     this._input.stop();
     this._canvas.stop();
+    this._canvases.stop();
+    this._replay?.pause();
   }
 
-  private _listen(): void {
-    window.addEventListener('message', (event) => {
-      if (event.source !== window.parent) return;
+  /**
+   * What this shim build supports, sent with SDK_LOADED / SDK_SECURITY_READY.
+   */
+  get hello(): ProtocolHello {
+    const capabilities: Capability[] = [
+      Capability.INPUT_POINTER,
+      Capability.INPUT_MULTITOUCH,
+      Capability.INPUT_KEYBOARD,
+      Capability.CANVAS_WEBGL,
+      Capability.CANVAS_THUMB,
+      Capability.WATERMARK,
+      // Relay lives in the SDK entry (index.ts), which always ships with the bridge
+      Capability.STREAMR,
+      Capability.REQUEST_ID,
+      Capability.CHANNEL,
+    ];
+    if (typeof navigator.getGamepads === 'function') capabilities.push(Capability.INPUT_GAMEPAD);
+    if (typeof createImageBitmap === 'function') capabilities.push(Capability.CANVAS_BITMAP);
+    if (REPLAY_TYPES.length > 0) capabilities.push(Capability.REPLAY);
+    return { protocolVersion: PROTOCOL_VERSION, capabilities };
+  }
+
+  /**
+   * Agreed version and capabilities, once a negotiating GameBox has sent SDK_SESSION_INIT.
+   */
+  get protocol(): ProtocolHello | null {
+    return this._protocol;
+  }
 
-      const data = event.data;
-      if (!data || typeof data !== 'object') return;
-      if (data.controller !== SecurityBridge._CONTROLLER) return;
+  /**
+   * Channel to GameBox, shared with the command listener and Streamr relay.
+   */
+  get transport(): GameBoxTransport {
+    return this._transport;
+  }
+
+  /**
+   * Shared game canvas registry (also used by the Streamr capture path).
+   */
+  get canvases(): CanvasRegistry {
+    return this._canvases;
+  }
+
+  private _listen(): void {
+    this._transport.on(SecurityBridge._CONTROLLER, (message) => {
+      const data = message.data;
+      if (!acceptMessage(SecurityRequestSchemas, data)) return;
       if (!SecurityBridge._VALID_TYPES.includes(data.type)) return;
 
       log.request(data.type);
 
       try {
-        this._handle(event);
+        this._handle(message);
       } catch {
         // Security shim must never crash the game
       }
     });
 
-    window.parent.postMessage({
+    this._transport.post(SecurityResponseSchemas, {
       controller: SecurityBridge._CONTROLLER,
       type: 'SDK_SECURITY_READY',
+      ...this.hello,
       ts: Date.now()
     }, '*');
   }
 
-  private _handle(event: MessageEvent): void {
-    const { type } = event.data;
+  /**
+   * `request.data` has passed SecurityRequestSchemas.
+   */
+  private _handle(request: TransportMessage): void {
+    const msg = request.data as SecurityRequest;
+    const requestId = (msg as { requestId?: string }).requestId;
+    // A new port means a new GameBox client, whose request ids start over
+    const fresh = msg.type === 'SDK_SESSION_INIT' && request.ports.length > 0;
+    if (requestId !== undefined && !fresh && this._isDuplicate(request, requestId)) return;
 
-    switch (type) {
+    switch (msg.type) {
       case 'SDK_SESSION_INIT': {
+        this._replies.clear();
+        this._lastWindow = -1;
+
+        // Older GameBox builds send no version: keep serving every request as before
+        this._protocol = msg.protocolVersion !== undefined
+          ? negotiate(this.hello, msg)
+          : null;
+        if (this._protocol) log.info(`Protocol v${this._protocol.protocolVersion}`, this._protocol.capabilities);
+
+        // Before the ACK, so the ACK is the first message on the channel
+        const port = request.ports[0];
+        if (port && this._allows(Capability.CHANNEL)) this._transport.adopt(port, request.origin);
+
         const meta = this._meta.collect();
-        this._respond(event, {
+        this._respond(request, requestId, {
           controller: SecurityBridge._CONTROLLER,
           type: 'SDK_SESSION_INIT_ACK',
           meta,
+          ...(this._protocol ?? this.hello),
           ts: Date.now()
         });
         this._onSessionInitCallback?.();
@@ -97,38 +192,77 @@ export class SecurityBridge {
       }
 
       case 'SDK_CHECKPOINT_REQUEST': {
-        const { seed, skipCanvas } = event.data;
+        const { seed, skipCanvas, capture: mode, watermark, watermarkData, windowIndex } = msg;
+        if (windowIndex !== undefined) {
+          // A late request for a window already taken would flush the next window's input
+          if (windowIndex <= this._lastWindow) {
+            log.warn(`Stale checkpoint request for window ${windowIndex} (at ${this._lastWindow})`);
+            // Answer anyway, without input or pixels, so GameBox fails the call now instead of timing out
+            this._respond(request, requestId, {
+              controller: SecurityBridge._CONTROLLER,
+              type: 'SDK_CHECKPOINT_RESPONSE',
+              windowIndex,
+              stale: true,
+              events: [],
+              pixels: null,
+              eventCount: 0,
+              screenW: window.innerWidth,
+              screenH: window.innerHeight
+            });
+            return;
+          }
+          this._lastWindow = windowIndex;
+        }
+
+        // Flush now so the window boundary doesn't move while waiting for a frame
         const events = this._input.flush();
-        const pixels = skipCanvas !== false ? null : this._canvas.sampleRaw(seed ?? 0);
+        const empty: CanvasCapture = { pixels: null, thumb: null };
+        const marks = this._allows(Capability.WATERMARK);
+        const capture = skipCanvas !== false
+          ? Promise.resolve(empty)
+          : this._canvas.captureAtFrameEnd(seed ?? 0, {
+            mode: mode === 'bitmap' && this._allows(Capability.CANVAS_BITMAP) ? 'bitmap' : 'samples',
+            watermark: marks && (watermark === true || watermarkData !== undefined),
+            // Same frame as the read: the game would paint over an earlier embed
+            embed: marks ? watermarkData : undefined,
+          });
 
-        this._respond(event, {
-          controller: SecurityBridge._CONTROLLER,
-          type: 'SDK_CHECKPOINT_RESPONSE',
-          events,
-          pixels,
-          eventCount: events.length,
-          screenW: window.innerWidth,
-          screenH: window.innerHeight
+        capture.catch(() => empty).then(({ pixels, thumb, watermark: region, bitmap }) => {
+          this._respond(request, requestId, {
+            controller: SecurityBridge._CONTROLLER,
+            type: 'SDK_CHECKPOINT_RESPONSE',
+            ...(windowIndex !== undefined ? { windowIndex } : {}),
+            events,
+            pixels,
+            thumb,
+            ...(region !== undefined ? { watermark: region } : {}),
+            ...(bitmap ? { bitmap } : {}),
+            eventCount: events.length,
+            untrustedCount: events.filter(ev => ev.u).length,
+            screenW: window.innerWidth,
+            screenH: window.innerHeight
+          }, bitmap ? [bitmap] : []);
         });
         break;
       }
 
       case 'SDK_CANVAS_EMBED_REQUEST': {
-        const { data } = event.data;
-        const ok = data instanceof Uint8Array
-          ? this._canvas.embedWatermark(data)
-          : false;
+        const ok = this._allows(Capability.WATERMARK)
+          ? this._canvas.embedAtFrameEnd(msg.data)
+          : Promise.resolve(false);
 
-        this._respond(event, {
-          controller: SecurityBridge._CONTROLLER,
-          type: 'SDK_CANVAS_EMBED_RESPONSE',
-          success: ok
+        ok.catch(() => false).then(success => {
+          this._respond(request, requestId, {
+            controller: SecurityBridge._CONTROLLER,
+            type: 'SDK_CANVAS_EMBED_RESPONSE',
+            success
+          });
         });
         break;
       }
 
       case 'SDK_META_REQUEST': {
-        this._respond(event, {
+        this._respond(request, requestId, {
           controller: SecurityBridge._CONTROLLER,
           type: 'SDK_META_RESPONSE',
           meta: this._meta.collect()
@@ -136,14 +270,93 @@ export class SecurityBridge {
         break;
       }
 
+      case 'SDK_REPLAY_LOAD': {
+        const { events, screenW, screenH } = msg;
+        if (!this._allows(Capability.REPLAY)) break;
+
+        if (!this._replay) this._replay = new InputReplayer(this._input);
+        this._replay.onState((state) => {
+          this._respond(request, undefined, {
+            controller: SecurityBridge._CONTROLLER,
+            type: 'SDK_REPLAY_STATE',
+            ...state
+          });
+        });
+        this._replay.load(events, screenW ?? 0, screenH ?? 0);
+        break;
+      }
+
+      case 'SDK_REPLAY_CONTROL': {
+        if (!this._replay) break;
+        const { action, value } = msg;
+
+        switch (action) {
+          case 'play': this._replay.play(); break;
+          case 'pause': this._replay.pause(); break;
+          case 'seek': this._replay.seek(value ?? 0); break;
+          case 'speed': this._replay.setSpeed(Number(value)); break;
+        }
+        break;
+      }
+
       case 'SDK_CHECKPOINT_ACK':
         break;
     }
   }
 
-  private _respond(event: MessageEvent, response: Record<string, unknown>): void {
+  /**
+   * Requests for features outside the agreement get their v1 answer
+   * (samples instead of a bitmap, no watermark). Everything is allowed
+   * when GameBox did not negotiate.
+   */
+  private _allows(capability: Capability): boolean {
+    return this._protocol === null || hasCapability(this._protocol, capability);
+  }
+
+  /**
+   * A requestId seen before is GameBox retrying after a lost reply: answer
+   * again from the cache instead of flushing input a second time. The cached
+   * checkpoint has no bitmap (it was transferred) - the retried window
+   * hashes without canvas data rather than with the next window's.
+   */
+  private _isDuplicate(request: TransportMessage, requestId: string): boolean {
+    const now = Date.now();
+    for (const [id, entry] of this._replies) {
+      if (now - entry.at > SecurityBridge._REPLY_TTL_MS) this._replies.delete(id);
+    }
+
+    const seen = this._replies.get(requestId);
+    if (!seen) {
+      this._replies.set(requestId, { reply: null, at: now });
+      return false;
+    }
+
+    if (seen.reply) {
+      log.warn(`Duplicate request ${requestId}, resending reply`);
+      this._send(request, { ...seen.reply, duplicate: true });
+    } else {
+      log.warn(`Duplicate request ${requestId} while answering it`);
+    }
+    return true;
+  }
+
+  private _respond(
+    request: TransportMessage,
+    requestId: string | undefined,
+    response: Record<string, unknown>,
+    transfer: Transferable[] = []
+  ): void {
+    if (requestId !== undefined) {
+      response = { ...response, requestId };
+      const { bitmap: _transferred, ...reply } = response;
+      this._replies.set(requestId, { reply, at: Date.now() });
+    }
+    this._send(request, response, transfer);
+  }
+
+  private _send(request: TransportMessage, response: Record<string, unknown>, transfer: Transferable[] = []): void {
     try {
-      (event.source as Window).postMessage(response, event.origin);
+      this._transport.post(SecurityResponseSchemas, response, request.origin, transfer);
     } catch {
       // Silently fail
     }
@@ -7,6 +7,14 @@
 
 export { SecurityBridge } from './SecurityBridge';
 export { InputCapture } from './InputCapture';
+export { InputReplayer } from './InputReplayer';
 export { CanvasHandler } from './CanvasHandler';
+export type { CanvasCapture, CaptureMode, CaptureOptions } from './CanvasHandler';
+export { CanvasRegistry } from './CanvasRegistry';
+export { GameBoxTransport } from './GameBoxTransport';
+export type { TransportMessage, TransportHandler } from './GameBoxTransport';
+export { OriginPolicy } from './OriginPolicy';
+export type { CanvasTarget, ContextKind } from './CanvasRegistry';
 export { MetadataCollector } from './MetadataCollector';
+export { acceptMessage, postMessageChecked } from './messages';
 export { log } from './logger';
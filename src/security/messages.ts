@@ -0,0 +1,45 @@
+/**
+ * Checked postMessage (SDK Shim)
+ *
+ * Applies the schemas from src/types/schema.ts at the shim's edges:
+ *   - Inbound: invalid messages are dropped and reported to the dev logger
+ *   - Outbound: checked in development builds only; a failure is reported
+ *     but the message is still sent, so a game passing loosely-typed values
+ *     through the frozen public API keeps working
+ */
+
+import { validateMessage } from '../types/schema';
+import type { SchemaTable } from '../types/schema';
+import { log } from './logger';
+
+const isDev = process.env.NODE_ENV !== 'production';
+
+/**
+ * True if `data` matches its schema in `table`; logs the reject otherwise.
+ */
+export function acceptMessage(table: SchemaTable, data: unknown): boolean {
+  const error = validateMessage(table, data);
+  if (error) log.warn(`Rejected inbound message: ${error}`, data);
+  return error === null;
+}
+
+/**
+ * `targetOrigin` applies to windows only; a MessagePort has one receiver.
+ */
+export function postMessageChecked(
+  target: Window | MessagePort,
+  table: SchemaTable,
+  message: object,
+  targetOrigin: string,
+  transfer: Transferable[] = []
+): void {
+  if (isDev) {
+    const error = validateMessage(table, message);
+    if (error) log.error(`Outbound message fails its schema: ${error}`, message);
+  }
+  if (target instanceof MessagePort) {
+    target.postMessage(message, transfer);
+  } else {
+    target.postMessage(message, targetOrigin, transfer);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Test Canvas
+ *
+ * jsdom has no canvas backend. This gives every canvas an in-memory 2D
+ * context with exactly what CanvasHandler uses: getImageData, putImageData,
+ * clearRect, drawImage. Call after installDom(), before the SDK loads.
+ */
+
+interface FakeImageData {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export class FakeContext2D {
+  imageSmoothingQuality = 'low';
+  private _pixels: Uint8ClampedArray;
+
+  constructor(readonly canvas: HTMLCanvasElement) {
+    this._pixels = new Uint8ClampedArray(canvas.width * canvas.height * 4);
+  }
+
+  /**
+   * The game's draw: paint the whole canvas one colour.
+   */
+  fill(r: number, g: number, b: number, a = 255): void {
+    for (let i = 0; i < this._pixels.length; i += 4) this._pixels.set([r, g, b, a], i);
+  }
+
+  getImageData(x: number, y: number, width: number, height: number): FakeImageData {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const src = this._index(x + col, y + row);
+        if (src >= 0) data.set(this._pixels.subarray(src, src + 4), (row * width + col) * 4);
+      }
+    }
+    return { data, width, height };
+  }
+
+  putImageData(image: FakeImageData, x: number, y: number): void {
+    for (let row = 0; row < image.height; row++) {
+      for (let col = 0; col < image.width; col++) {
+        const dst = this._index(x + col, y + row);
+        const src = (row * image.width + col) * 4;
+        if (dst >= 0) this._pixels.set(image.data.subarray(src, src + 4), dst);
+      }
+    }
+  }
+
+  clearRect(): void {}
+
+  drawImage(): void {}
+
+  private _index(x: number, y: number): number {
+    if (x < 0 || y < 0 || x >= this.canvas.width || y >= this.canvas.height) return -1;
+    return (y * this.canvas.width + x) * 4;
+  }
+}
+
+/**
+ * Stand-in WebGL context with what the frame-end read path uses. Like a real
+ * default drawing buffer, it stores premultiplied colour, bottom row first.
+ */
+export class FakeWebGL {
+  readonly FRAMEBUFFER = 0x8d40;
+  readonly FRAMEBUFFER_BINDING = 0x8ca6;
+  readonly RGBA = 0x1908;
+  readonly UNSIGNED_BYTE = 0x1401;
+  private _pixels: Uint8Array;
+
+  constructor(readonly canvas: HTMLCanvasElement) {
+    this._pixels = new Uint8Array(canvas.width * canvas.height * 4);
+  }
+
+  /**
+   * The game's draw: straight-alpha colour per pixel, in canvas coordinates.
+   */
+  draw(colour: (x: number, y: number) => [number, number, number, number]): void {
+    const { width, height } = this.canvas;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const [r, g, b, a] = colour(x, y);
+        const o = ((height - 1 - y) * width + x) * 4;
+        this._pixels.set([r, g, b].map(c => Math.round((c * a) / 255)).concat(a), o);
+      }
+    }
+  }
+
+  getContextAttributes(): { premultipliedAlpha: boolean } {
+    return { premultipliedAlpha: true };
+  }
+
+  isContextLost(): boolean {
+    return false;
+  }
+
+  getParameter(): null {
+    return null;
+  }
+
+  bindFramebuffer(): void {}
+
+  readPixels(x: number, y: number, w: number, h: number, _format: number, _type: number, out: Uint8Array): void {
+    for (let row = 0; row < h; row++) {
+      const src = ((y + row) * this.canvas.width + x) * 4;
+      out.set(this._pixels.subarray(src, src + w * 4), row * w * 4);
+    }
+  }
+}
+
+/**
+ * Back every canvas's '2d' context with a FakeContext2D and 'webgl'/'webgl2'
+ * with a FakeWebGL. As in a browser, a canvas keeps the first kind it was
+ * asked for and returns null for any other.
+ */
+export function installCanvas(): void {
+  const contexts = new WeakMap<HTMLCanvasElement, { kind: string; ctx: FakeContext2D | FakeWebGL }>();
+  Object.defineProperty(HTMLCanvasElement.prototype, 'getContext', {
+    configurable: true,
+    writable: true,
+    value(this: HTMLCanvasElement, kind: string) {
+      if (kind !== '2d' && kind !== 'webgl' && kind !== 'webgl2') return null;
+      let entry = contexts.get(this);
+      if (!entry) {
+        entry = { kind, ctx: kind === '2d' ? new FakeContext2D(this) : new FakeWebGL(this) };
+        contexts.set(this, entry);
+      }
+      return entry.kind === kind ? entry.ctx : null;
+    },
+  });
+}
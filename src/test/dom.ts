@@ -0,0 +1,47 @@
+/**
+ * Test DOM
+ *
+ * Exposes a jsdom window as the browser globals the shim reads, so its
+ * modules run under node:test. Shim code resolves `window`, `document` and
+ * the event classes at call time, so installing before the first call is enough.
+ *
+ * The shim sets timers with window.setTimeout and clears them with the bare
+ * global - one implementation in a browser, so the window gets node's here.
+ */
+
+import { JSDOM } from 'jsdom';
+
+const GLOBALS = [
+  'window',
+  'document',
+  'navigator',
+  'screen',
+  'Event',
+  'MouseEvent',
+  'PointerEvent',
+  'KeyboardEvent',
+  'MessageEvent',
+  'HTMLCanvasElement',
+  'requestAnimationFrame',
+  'cancelAnimationFrame',
+] as const;
+
+const TIMERS = ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval'] as const;
+
+export function installDom(): JSDOM {
+  const dom = new JSDOM('<!doctype html><body></body>', {
+    url: 'https://game.wam.app/',
+    pretendToBeVisual: true,
+  });
+  const win = dom.window as unknown as Record<string, unknown>;
+  for (const name of TIMERS) win[name] = globalThis[name];
+  for (const name of GLOBALS) {
+    const value = win[name];
+    Object.defineProperty(globalThis, name, {
+      value: typeof value === 'function' && name.endsWith('AnimationFrame') ? value.bind(dom.window) : value,
+      configurable: true,
+      writable: true,
+    });
+  }
+  return dom;
+}
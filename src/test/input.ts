@@ -0,0 +1,89 @@
+/**
+ * Test Input
+ *
+ * Plays taps (or key presses) through a real InputCapture on a canvas and returns the tuples
+ * it flushed - what the Worker receives for one checkpoint window. Feeding
+ * worker code from here instead of hand-written tuples keeps it honest about
+ * what capture actually emits. Call after installDom().
+ */
+
+import { mock } from 'node:test';
+import { CanvasRegistry } from '../security/CanvasRegistry';
+import { InputCapture } from '../security/InputCapture';
+import type { RawEventTuple } from '../worker/types';
+
+export interface Tap {
+  /** performance.now() at pointerdown */
+  t: number;
+  x: number;
+  y: number;
+  /** ms until pointerup */
+  hold?: number;
+}
+
+export interface KeyPress {
+  /** performance.now() at keydown */
+  t: number;
+  /** KeyboardEvent.code */
+  code: string;
+  /** ms until keyup */
+  hold: number;
+}
+
+export function captureTaps(taps: Tap[], pointerType = 'touch'): RawEventTuple[] {
+  const canvas = document.createElement('canvas');
+  document.body.appendChild(canvas);
+  const registry = new CanvasRegistry();
+  registry.set(canvas);
+  const input = new InputCapture(registry);
+
+  let now = 0;
+  const clock = mock.method(performance, 'now', () => now);
+  const dispatch = (type: string, tap: Tap) =>
+    canvas.dispatchEvent(new PointerEvent(type, {
+      bubbles: true, clientX: tap.x, clientY: tap.y, pointerId: 1, pointerType,
+    }));
+
+  input.start();
+  try {
+    for (const tap of taps) {
+      now = tap.t;
+      dispatch('pointerdown', tap);
+      now = tap.t + (tap.hold ?? 80);
+      dispatch('pointerup', tap);
+    }
+    // jsdom events are script-dispatched; these stand in for real input
+    return input.flush().map(({ u: _u, ...ev }) => ev);
+  } finally {
+    input.stop();
+    clock.mock.restore();
+    canvas.remove();
+  }
+}
+
+/**
+ * Key presses may overlap: every keydown and keyup is played in time order.
+ */
+export function captureKeys(presses: KeyPress[]): RawEventTuple[] {
+  const registry = new CanvasRegistry();
+  const input = new InputCapture(registry);
+  const steps = presses.flatMap(press => [
+    { t: press.t, type: 'keydown', code: press.code },
+    { t: press.t + press.hold, type: 'keyup', code: press.code },
+  ]).sort((a, b) => a.t - b.t);
+
+  let now = 0;
+  const clock = mock.method(performance, 'now', () => now);
+
+  input.start();
+  try {
+    for (const step of steps) {
+      now = step.t;
+      window.dispatchEvent(new KeyboardEvent(step.type, { code: step.code }));
+    }
+    return input.flush().map(({ u: _u, ...ev }) => ev);
+  } finally {
+    input.stop();
+    clock.mock.restore();
+  }
+}
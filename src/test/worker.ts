@@ -0,0 +1,60 @@
+/**
+ * Test Worker
+ *
+ * Runs the real Security Worker (src/worker/index.ts) in-process behind a
+ * Worker-shaped object, so GameBox-side code is tested against the actual
+ * protocol. Messages are delivered on a later task, as a Worker would.
+ * The module keeps its state at top level: one worker per test file.
+ */
+
+import type { WorkerInboundMessage, WorkerOutboundMessage } from '../worker/types';
+
+type Listener = (event: MessageEvent) => void;
+
+export async function startWorker(): Promise<Worker> {
+  const listeners: Listener[] = [];
+  const scope = {
+    onmessage: null as ((event: { data: unknown }) => void) | null,
+    postMessage: (data: unknown) => {
+      setTimeout(() => listeners.forEach(listener => listener({ data } as MessageEvent)));
+    },
+  };
+  Object.defineProperty(globalThis, 'self', { value: scope, configurable: true, writable: true });
+  await import('../worker/index');
+
+  const worker = {
+    addEventListener: (_type: string, listener: Listener) => listeners.push(listener),
+    removeEventListener: (_type: string, listener: Listener) => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    },
+    postMessage: (data: unknown) => {
+      setTimeout(() => scope.onmessage?.({ data }));
+    },
+    terminate: () => {
+      listeners.length = 0;
+    },
+  };
+  return worker as unknown as Worker;
+}
+
+/**
+ * Send one message and wait for the reply of type `reply` (rejects on ERROR).
+ */
+export function workerRequest<T extends WorkerOutboundMessage['type']>(
+  worker: Worker,
+  message: WorkerInboundMessage,
+  reply: T
+): Promise<Extract<WorkerOutboundMessage, { type: T }>> {
+  return new Promise((resolve, reject) => {
+    const listener = (event: MessageEvent<WorkerOutboundMessage>) => {
+      const data = event.data;
+      if (data.type !== reply && data.type !== 'ERROR') return;
+      worker.removeEventListener('message', listener);
+      if (data.type === 'ERROR') reject(new Error(data.message));
+      else resolve(data as Extract<WorkerOutboundMessage, { type: T }>);
+    };
+    worker.addEventListener('message', listener);
+    worker.postMessage(message);
+  });
+}
@@ -20,7 +20,14 @@ export type SecurityMessageType =
   | 'SDK_CANVAS_EMBED_RESPONSE'
   | 'SDK_META_REQUEST'
   | 'SDK_META_RESPONSE'
-  | 'SDK_LOADED';
+  | 'SDK_LOADED'
+  // Development builds only (input replay)
+  | 'SDK_REPLAY_LOAD'
+  | 'SDK_REPLAY_CONTROL'
+  | 'SDK_REPLAY_STATE';
+
+// Runtime schemas for all three controllers (also for GameBox)
+export * from './schema';
 
 // ============================================================
 // Session Metadata
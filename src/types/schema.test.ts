@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { acceptMessage } from '../security/messages';
+import { SecurityResponseSchemas } from './schema';
+
+// Exactly what a pre-negotiation (v1) shim sends
+const V1 = {
+  loaded: { controller: '_digitapSecurity', type: 'SDK_LOADED', ts: 1700000000000 },
+  ready: { controller: '_digitapSecurity', type: 'SDK_SECURITY_READY', ts: 1700000000000 },
+  ack: {
+    controller: '_digitapSecurity',
+    type: 'SDK_SESSION_INIT_ACK',
+    meta: { screenW: 390, screenH: 844, dpr: 3, orientation: 'portrait', platform: 'ios', touchCapable: true },
+    ts: 1700000000000,
+  },
+  checkpoint: {
+    controller: '_digitapSecurity',
+    type: 'SDK_CHECKPOINT_RESPONSE',
+    events: [{ t: 12.5, x: 100, y: 200, e: 0 }, { t: 90, x: 100, y: 200, e: 2 }],
+    pixels: null,
+    eventCount: 2,
+    screenW: 390,
+    screenH: 844,
+  },
+};
+
+describe('SecurityResponseSchemas', () => {
+  for (const [name, message] of Object.entries(V1)) {
+    it(`accepts a v1 ${name} message`, () => {
+      assert.equal(acceptMessage(SecurityResponseSchemas, message), true);
+    });
+  }
+
+  it('still rejects a malformed hello', () => {
+    assert.equal(acceptMessage(SecurityResponseSchemas, { ...V1.loaded, protocolVersion: '2' }), false);
+  });
+});
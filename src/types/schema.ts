@@ -0,0 +1,350 @@
+/**
+ * postMessage Schemas
+ *
+ * Runtime checks for every message on the three SDK ↔ GameBox controllers,
+ * one table per controller and direction. The shim validates what it
+ * receives (rejects are dropped) and what it sends; GameBox can import the
+ * same tables to validate its side.
+ *
+ * Fields not listed are allowed, so a newer party can add fields without
+ * older ones rejecting its messages. Pure - no DOM listeners, no logging.
+ */
+
+// ============================================================
+// Field Checks
+// ============================================================
+
+type Message = Record<string, unknown>;
+
+/**
+ * Type guard for one field. Gets the whole message for fields whose rules
+ * depend on another field (see `when`).
+ */
+export type Check<T> = (value: unknown, message: Message) => value is T;
+
+/**
+ * Field that may be absent (undefined). `required` makes it mandatory for
+ * some messages only.
+ */
+export interface OptionalField<T> {
+  optional: true;
+  check: Check<T>;
+  required?: (message: Message) => boolean;
+}
+
+export type Field = Check<any> | OptionalField<any>;
+export type Shape = Record<string, Field>;
+export type SchemaTable = Record<string, Shape>;
+
+type FieldType<F> = F extends OptionalField<infer T> ? T : F extends Check<infer T> ? T : never;
+type RequiredKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalField<any> ? never : K }[keyof S];
+type OptionalKeys<S extends Shape> = Exclude<keyof S, RequiredKeys<S>>;
+
+/** Message type described by a Shape */
+export type Infer<S extends Shape> =
+  { [K in RequiredKeys<S>]: FieldType<S[K]> } &
+  { [K in OptionalKeys<S>]?: FieldType<S[K]> };
+
+const isRecord = (v: unknown): v is Message =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const is = {
+  unknown: ((_v: unknown): _v is unknown => true),
+  number: ((v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)),
+  integer: ((v: unknown): v is number => Number.isInteger(v)),
+  string: ((v: unknown): v is string => typeof v === 'string'),
+  boolean: ((v: unknown): v is boolean => typeof v === 'boolean'),
+  object: ((v: unknown): v is Message => isRecord(v)),
+  bytes: ((v: unknown): v is Uint8Array => v instanceof Uint8Array),
+  bitmap: ((v: unknown): v is ImageBitmap => typeof ImageBitmap !== 'undefined' && v instanceof ImageBitmap),
+
+  array<T = unknown>(item?: Check<T>): Check<T[]> {
+    return (v, m): v is T[] => Array.isArray(v) && (!item || v.every(x => item(x, m)));
+  },
+
+  oneOf<T extends string | number>(...values: T[]): Check<T> {
+    return (v): v is T => (values as unknown[]).includes(v);
+  },
+
+  nullable<T>(check: Check<T>): Check<T | null> {
+    return (v, m): v is T | null => v === null || check(v, m);
+  },
+
+  either<A, B>(a: Check<A>, b: Check<B>): Check<A | B> {
+    return (v, m): v is A | B => a(v, m) || b(v, m);
+  },
+
+  /** Nested object with the same field rules as a message (see validateMessage) */
+  shape<S extends Shape>(shape: S): Check<Infer<S>> {
+    return (v): v is Infer<S> => isRecord(v) && validateShape(shape, v) === null;
+  },
+
+  /** String holding a JSON object (e.g. a serialized RTCSessionDescription) */
+  jsonObject: ((v: unknown): v is string => {
+    if (typeof v !== 'string') return false;
+    try {
+      return isRecord(JSON.parse(v));
+    } catch {
+      return false;
+    }
+  }),
+};
+
+export function optional<T>(check: Check<T>): OptionalField<T> {
+  return { optional: true, check };
+}
+
+/**
+ * Optional field that is mandatory when `condition` holds for the message.
+ */
+export function when<T>(condition: (message: Message) => boolean, check: Check<T>): OptionalField<T> {
+  return { optional: true, check, required: condition };
+}
+
+// ============================================================
+// Validation
+// ============================================================
+
+/**
+ * Returns null if `data` is a valid message of a type listed in `table`,
+ * otherwise the first problem found (for logging).
+ */
+export function validateMessage(table: SchemaTable, data: unknown): string | null {
+  if (!isRecord(data)) return 'not an object';
+
+  const type = data.type;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(table, type)) {
+    return `unknown type ${JSON.stringify(type)}`;
+  }
+
+  const problem = validateShape(table[type], data);
+  return problem && `${type}.${problem}`;
+}
+
+/**
+ * First field of `data` that breaks `shape` ("name is invalid" / "name is required"), or null.
+ */
+function validateShape(shape: Shape, data: Message): string | null {
+  for (const name of Object.keys(shape)) {
+    const field = shape[name];
+    const value = data[name];
+
+    if (typeof field === 'function') {
+      if (!field(value, data)) return `${name} is invalid`;
+    } else if (value === undefined) {
+      if (field.required?.(data)) return `${name} is required`;
+    } else if (!field.check(value, data)) {
+      return `${name} is invalid`;
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// Shared Shapes
+// ============================================================
+
+/**
+ * Protocol negotiation. Absent from pre-negotiation (v1) shims, which the
+ * other side treats as ProtocolVersion.V1 with no capabilities.
+ */
+const hello = {
+  protocolVersion: optional(is.integer),
+  capabilities: optional(is.array(is.string)),
+};
+
+/**
+ * Request/response correlation: GameBox picks the id, the shim echoes it.
+ * Absent on both sides for parties without Capability.REQUEST_ID.
+ */
+const request = {
+  requestId: optional(is.string),
+};
+
+const reply = {
+  requestId: optional(is.string),
+  /** Answered from the shim's reply cache: GameBox repeated a requestId */
+  duplicate: optional(is.boolean),
+};
+
+/**
+ * RawEventTuple (src/worker/types.ts): p, k and u are absent from older shims
+ * and for keyboard events.
+ */
+const eventTuple = is.shape({
+  t: is.number,
+  x: is.number,
+  y: is.number,
+  e: is.integer,
+  p: optional(is.integer),
+  k: optional(is.integer),
+  u: optional(is.integer),
+});
+
+/** SessionMeta (src/types/index.ts), from MetadataCollector */
+const sessionMeta = is.shape({
+  screenW: is.number,
+  screenH: is.number,
+  dpr: is.number,
+  orientation: is.oneOf('portrait', 'landscape'),
+  platform: is.oneOf('ios', 'android', 'web', 'desktop'),
+  touchCapable: is.boolean,
+});
+
+const progress = {
+  score: is.number,
+  level: optional(is.number),
+  continueScore: is.number,
+  state: is.unknown,
+};
+
+const settings = {
+  ui: optional(is.array()),
+  ready: is.boolean,
+};
+
+// ============================================================
+// _digitapGame (SDK → GameBox)
+// ============================================================
+
+export const GameSchemas = {
+  SDK_SETTINGS: settings,
+  SDK_PLAYER_SCORE_UPDATE: progress,
+  SDK_PLAYER_LEVEL_UP: progress,
+  SDK_PLAYER_FAILED: progress,
+  // SDK v1.0.0 names (_digitapUser)
+  settings,
+  progress,
+} satisfies SchemaTable;
+
+// ============================================================
+// _digitapApp (GameBox → SDK)
+// ============================================================
+
+export const AppSchemas = {
+  SDK_START_GAME: {},
+  SDK_PAUSE_GAME: {},
+  SDK_START_GAME_FROM_ZERO: {},
+  SDK_CONTINUE_WITH_CURRENT_SCORE: {},
+  // SDK v1.0.0 names
+  startGame: {},
+  startGameFromZero: {},
+  continueWithCurrentScore: {},
+  // Signed runtime extension of the allowed origins (see OriginPolicy)
+  SDK_ORIGIN_GRANT: {
+    payload: is.string,
+    signature: is.string,
+  },
+  // Streamr signalling
+  webrtc: {
+    action: is.oneOf('init', 'close'),
+    offer: when(m => m.action === 'init', is.jsonObject),
+    fps: optional(is.number),
+    tournament_id: optional(is.either(is.string, is.number)),
+    username: optional(is.string),
+  },
+} satisfies SchemaTable;
+
+/**
+ * Streamr replies to `webrtc` commands. They carry no controller.
+ */
+export const StreamrSchemas = {
+  streamr: {
+    action: is.oneOf('connected', 'disconnected', 'answer'),
+    offer: when(m => m.action === 'answer', is.string),
+  },
+} satisfies SchemaTable;
+
+// ============================================================
+// _digitapSecurity
+// ============================================================
+
+/** GameBox → SDK */
+export const SecurityRequestSchemas = {
+  SDK_SESSION_INIT: {
+    ...request,
+    sessionId: is.string,
+    protocolVersion: optional(is.integer),
+    capabilities: optional(is.array(is.string)),
+  },
+  SDK_CHECKPOINT_REQUEST: {
+    ...request,
+    /** Window the capture is for; echoed so a late reply can't be taken for the next window */
+    windowIndex: optional(is.integer),
+    seed: optional(is.integer),
+    skipCanvas: optional(is.boolean),
+    capture: optional(is.oneOf('samples', 'bitmap')),
+    watermark: optional(is.boolean),
+    /** WATERMARK_DATA.data: embedded right before the region is read, in the same frame */
+    watermarkData: optional(is.bytes),
+  },
+  SDK_CHECKPOINT_ACK: {},
+  SDK_CANVAS_EMBED_REQUEST: {
+    ...request,
+    data: is.bytes,
+  },
+  SDK_META_REQUEST: { ...request },
+  // Development builds only
+  SDK_REPLAY_LOAD: {
+    events: is.array(eventTuple),
+    screenW: optional(is.number),
+    screenH: optional(is.number),
+  },
+  SDK_REPLAY_CONTROL: {
+    action: is.oneOf('play', 'pause', 'seek', 'speed'),
+    value: optional(is.number),
+  },
+} satisfies SchemaTable;
+
+/** SDK → GameBox */
+export const SecurityResponseSchemas = {
+  SDK_LOADED: { ...hello, ts: is.number },
+  SDK_SECURITY_READY: { ...hello, ts: is.number },
+  SDK_SESSION_INIT_ACK: { ...reply, ...hello, meta: sessionMeta, ts: is.number },
+  SDK_CHECKPOINT_RESPONSE: {
+    ...reply,
+    windowIndex: optional(is.integer),
+    /** windowIndex was already taken this session: nothing was captured */
+    stale: optional(is.boolean),
+    events: is.array(eventTuple),
+    pixels: is.nullable(is.bytes),
+    /** Absent from v1 shims, like untrustedCount */
+    thumb: optional(is.nullable(is.bytes)),
+    watermark: optional(is.nullable(is.bytes)),
+    bitmap: optional(is.bitmap),
+    eventCount: is.integer,
+    untrustedCount: optional(is.integer),
+    screenW: is.number,
+    screenH: is.number,
+  },
+  SDK_CANVAS_EMBED_RESPONSE: {
+    ...reply,
+    success: is.boolean,
+  },
+  SDK_META_RESPONSE: {
+    ...reply,
+    meta: sessionMeta,
+  },
+  SDK_REPLAY_STATE: {
+    playing: is.boolean,
+    position: is.number,
+    duration: is.number,
+    speed: is.number,
+    cursor: is.integer,
+    total: is.integer,
+  },
+} satisfies SchemaTable;
+
+// ============================================================
+// Message Types
+// ============================================================
+
+type MessageOf<T extends SchemaTable> = {
+  [K in keyof T & string]: { type: K } & Infer<T[K]>;
+}[keyof T & string];
+
+export type GameMessage = { controller: '_digitapGame' } & MessageOf<typeof GameSchemas>;
+export type AppMessage = { controller: '_digitapApp' } & MessageOf<typeof AppSchemas>;
+export type StreamrMessage = MessageOf<typeof StreamrSchemas>;
+export type SecurityRequest = { controller: '_digitapSecurity' } & MessageOf<typeof SecurityRequestSchemas>;
+export type SecurityResponse = { controller: '_digitapSecurity' } & MessageOf<typeof SecurityResponseSchemas>;
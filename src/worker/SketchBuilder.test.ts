@@ -0,0 +1,79 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { captureKeys, captureTaps } from '../test/input';
+import { SketchBuilder } from './SketchBuilder';
+import { decodeSketch } from './sketch';
+
+const SCREEN_W = 800;
+const SCREEN_H = 600;
+
+// Uneven rhythm, scattered around one button, one tap elsewhere
+const HUMAN = [
+  { t: 1000, x: 100, y: 200, hold: 70 },
+  { t: 1340, x: 112, y: 205, hold: 95 },
+  { t: 1610, x: 96, y: 190, hold: 82 },
+  { t: 2050, x: 105, y: 214, hold: 110 },
+  { t: 2260, x: 300, y: 400, hold: 64 },
+  { t: 2700, x: 108, y: 198, hold: 88 },
+];
+
+// Every 100ms on the same pixel
+const CLICKER = Array.from({ length: 10 }, (_, i) => ({ t: 1000 + i * 100, x: 200, y: 300, hold: 50 }));
+
+function sketchOf(taps: typeof HUMAN) {
+  const builder = new SketchBuilder();
+  builder.ingest(captureTaps(taps), SCREEN_W, SCREEN_H);
+  return decodeSketch(builder.build());
+}
+
+describe('SketchBuilder', () => {
+  before(() => {
+    installDom();
+  });
+
+  it('counts each captured tap and interval once', () => {
+    const sketch = sketchOf(HUMAN);
+
+    assert.equal(sketch.counts.taps, HUMAN.length);
+    assert.equal(sketch.counts.intervals, HUMAN.length - 1);
+    assert.equal(sketch.counts.holds, HUMAN.length);
+    // No phantom 0ms intervals between a press and its echo
+    assert.equal(sketch.pressIntervals[0], 0);
+  });
+
+  it('keeps timing jitter and target spread for human taps', () => {
+    const sketch = sketchOf(HUMAN);
+
+    assert.ok(sketch.jitter!.intervalVariation > 0.2);
+    assert.ok(sketch.entropy.pressIntervals > 0);
+    assert.equal(sketch.targets!.exactRepeatRatio, 0);
+    assert.equal(sketch.targets!.count, 1);
+    assert.ok(sketch.targets!.dispersion > 0);
+  });
+
+  it('shows an auto-clicker as regular, repeated and undispersed', () => {
+    const sketch = sketchOf(CLICKER);
+
+    assert.equal(sketch.counts.intervals, CLICKER.length - 1);
+    assert.equal(sketch.jitter!.intervalVariation, 0);
+    assert.equal(sketch.entropy.pressIntervals, 0);
+    assert.equal(sketch.targets!.exactRepeatRatio, Math.floor((9 / 10) * 255) / 255);
+    assert.equal(sketch.targets!.dispersion, 0);
+  });
+
+  it('pairs each key hold with its own key when two letters overlap', () => {
+    // W down, A down, W up, A up: both LETTER, held 300ms and 200ms
+    const builder = new SketchBuilder();
+    builder.ingest(captureKeys([
+      { t: 1000, code: 'KeyW', hold: 300 },
+      { t: 1200, code: 'KeyA', hold: 200 },
+    ]), SCREEN_W, SCREEN_H);
+    const sketch = decodeSketch(builder.build());
+
+    assert.equal(sketch.counts.holds, 2);
+    // 200ms lands in the 160-220 bucket, 300ms in 220-320
+    const buckets = sketch.holds!.flatMap((share, i) => share > 0 ? [i] : []);
+    assert.deepEqual(buckets, [5, 6]);
+  });
+});
@@ -4,39 +4,87 @@
  * Builds a 64-byte behavioral fingerprint for bot detection.
  * Runs inside the Security Worker - zero main-thread impact.
  *
- * Layout:
- *   Bytes 0-7:   Tap interval histogram (8 buckets)
+ * Layout (v2):
+ *   Bytes 0-7:   Press interval histogram (8 buckets, taps + key/gamepad presses)
  *   Bytes 8-15:  Touch zone distribution (8 zones: 4x2 grid)
  *   Bytes 16-23: Velocity histogram (8 buckets)
- *   Bytes 24-47: Reserved
+ *   Bytes 24-31: Hold duration histogram (down → up, 8 buckets)
+ *   Bytes 32-39: Timing jitter + spatial dispersion
+ *   Bytes 40-47: Trajectory (drag/swipe strokes)
  *   Bytes 48-55: Entropy measures
- *   Bytes 56-63: Metadata (event counts)
+ *   Bytes 56-63: Metadata (event counts, byte 63 = SketchVersion)
+ *
+ * v1 sketches have bytes 24-39, 54 and 63 all zero - read a 0 version byte as V1.
+ *
+ * Keyboard and gamepad games have no taps, so key and button presses share
+ * the interval histogram with taps - cadence is covered either way. Zones and velocity stay pointer-only.
+ *
+ * Strokes and concurrency are tracked per pointer id (RawEventTuple.p), so
+ * two-finger play is distinguishable from single taps.
+ *
+ * Auto-clickers give themselves away in v2's bytes: near-constant holds and
+ * intervals (low jitter), and taps stacked on the exact same pixel (no
+ * dispersion around a repeated target).
  */
 
 import type { RawEventTuple } from './types';
+import { EventCode, SketchVersion } from './types';
 import { bytesToHex } from './crypto';
 
 export class SketchBuilder {
-  private _tapIntervals: number[] = [];
-  private _lastTapTime = 0;
+  private _pressIntervals: number[] = [];
+  private _lastPressTime = 0;
   private _touchZones = new Uint8Array(8);
   private _velocities: number[] = [];
   private _lastTap: { x: number; y: number; t: number } | null = null;
   private _tapCount = 0;
+  private _keyCount = 0;
+  private _keyClasses: number[] = [];
+  private _strokes = new Map<number, { x: number; y: number; t: number }[]>();
+  private _activePointers = new Set<number>();
+  private _maxConcurrent = 0;
+  private _concurrentDowns = 0;
+  private _straightness: number[] = [];
+  private _curvature: number[] = [];
+  private _speedVariation: number[] = [];
+  private _speedProfile = [0, 0, 0, 0];
+  private _strokeCount = 0;
+  private _pressStarts = new Map<string, number>();
+  private _holds: number[] = [];
+  private _taps: { x: number; y: number }[] = [];
+  private _diagonal = 0;
+
+  // Taps within this share of the screen diagonal aim at the same target
+  private static readonly _TARGET_RADIUS = 0.05;
+  private static readonly _MIN_TARGET_TAPS = 3;
 
   /**
    * Ingest a batch of raw event tuples from the SDK shim.
    */
   ingest(events: RawEventTuple[], screenW: number, screenH: number): void {
+    this._diagonal = Math.sqrt(screenW * screenW + screenH * screenH);
+
     for (const ev of events) {
-      if (ev.e === 1) {
+      if (ev.e === EventCode.KEY_DOWN) {
+        // Key press (x carries the key class, p the held-key slot)
+        this._keyCount++;
+        this._keyClasses.push(ev.x);
+        this._addPress(ev.t);
+        this._pressStarts.set(`k${ev.p ?? 0}:${ev.x}`, ev.t);
+      } else if (ev.e === EventCode.KEY_UP) {
+        this._endHold(`k${ev.p ?? 0}:${ev.x}`, ev.t);
+      } else if (ev.e === EventCode.PAD_BUTTON_DOWN) {
+        // Gamepad button press - same cadence treatment as keys
+        this._addPress(ev.t);
+        this._pressStarts.set(`b${ev.p ?? 0}:${ev.x}`, ev.t);
+      } else if (ev.e === EventCode.PAD_BUTTON_UP) {
+        this._endHold(`b${ev.p ?? 0}:${ev.x}`, ev.t);
+      } else if (ev.e === EventCode.DOWN) {
         // Tap event
         this._tapCount++;
-
-        if (this._lastTapTime > 0) {
-          this._tapIntervals.push(ev.t - this._lastTapTime);
-        }
-        this._lastTapTime = ev.t;
+        this._addPress(ev.t);
+        this._taps.push({ x: ev.x, y: ev.y });
+        this._pressStarts.set(`p${ev.p ?? 0}`, ev.t);
 
         // Touch zone (8 zones: 4 cols x 2 rows)
         const col = Math.max(0, Math.min(Math.floor((ev.x / (screenW || 1)) * 4), 3));
@@ -57,6 +105,29 @@ export class SketchBuilder {
           }
         }
         this._lastTap = { x: ev.x, y: ev.y, t: ev.t };
+
+        // Concurrency: pre-multi-touch shims send no pointer id, so every press is pointer 0
+        const pointer = ev.p ?? 0;
+        if (this._activePointers.size > 0 && !this._activePointers.has(pointer)) {
+          this._concurrentDowns++;
+        }
+        this._activePointers.add(pointer);
+        this._maxConcurrent = Math.max(this._maxConcurrent, this._activePointers.size);
+
+        this._strokes.set(pointer, [{ x: ev.x, y: ev.y, t: ev.t }]);
+      } else if (ev.e === EventCode.MOVE) {
+        this._strokes.get(ev.p ?? 0)?.push({ x: ev.x, y: ev.y, t: ev.t });
+      } else if (ev.e === EventCode.UP) {
+        const pointer = ev.p ?? 0;
+        this._activePointers.delete(pointer);
+        this._endHold(`p${pointer}`, ev.t);
+
+        const stroke = this._strokes.get(pointer);
+        if (stroke) {
+          stroke.push({ x: ev.x, y: ev.y, t: ev.t });
+          this._endStroke(stroke);
+          this._strokes.delete(pointer);
+        }
       }
     }
   }
@@ -64,9 +135,9 @@ export class SketchBuilder {
   build(): string {
     const sketch = new Uint8Array(64);
 
-    // Bytes 0-7: Tap interval histogram
+    // Bytes 0-7: Press interval histogram
     sketch.set(this._normalizeHist(
-      this._histogram(this._tapIntervals, [50, 100, 150, 200, 250, 300, 350])
+      this._histogram(this._pressIntervals, [50, 100, 150, 200, 250, 300, 350])
     ), 0);
 
     // Bytes 8-15: Touch zone distribution
@@ -77,29 +148,225 @@ export class SketchBuilder {
       this._histogram(this._velocities, [0.5, 1, 2, 4, 8, 16, 32])
     ), 16);
 
+    // Bytes 24-31: Hold duration histogram
+    sketch.set(this._normalizeHist(
+      this._histogram(this._holds, [30, 60, 90, 120, 160, 220, 320])
+    ), 24);
+
+    // Bytes 32-39: Jitter + dispersion
+    sketch[32] = Math.floor(Math.min(this._variation(this._pressIntervals), 1) * 255);
+    // Lag-1 autocorrelation (-1..1 → 0..255, 128 ≈ none)
+    sketch[33] = Math.round((this._autocorrelation(this._pressIntervals) + 1) * 127.5);
+    const targets = this._targets();
+    sketch[34] = Math.floor(Math.min(targets.dispersion, 1) * 255);
+    sketch[35] = Math.floor(targets.exactRepeatRatio * 255);
+    sketch[36] = Math.floor(Math.min(this._variation(this._holds), 1) * 255);
+    sketch[37] = Math.min(targets.count, 255);
+
+    // Bytes 40-47: Trajectory
+    if (this._strokeCount > 0) {
+      const peak = Math.max(...this._speedProfile) || 1;
+      for (let i = 0; i < 4; i++) {
+        sketch[40 + i] = Math.floor((this._speedProfile[i] / peak) * 255);
+      }
+    }
+    sketch[44] = Math.floor(this._mean(this._straightness) * 255);
+    sketch[45] = Math.floor(this._mean(this._curvature) * 255);
+    sketch[46] = Math.floor(this._mean(this._speedVariation) * 255);
+    sketch[47] = Math.min(this._strokeCount, 255);
+
     // Bytes 48-55: Entropy
-    sketch[48] = Math.floor(this._entropy(this._tapIntervals) * 255);
+    sketch[48] = Math.floor(this._entropy(this._pressIntervals) * 255);
     sketch[49] = Math.floor(this._entropy(Array.from(this._touchZones)) * 255);
     sketch[50] = Math.floor(this._entropy(this._velocities) * 255);
     sketch[51] = Math.floor(this._uniformity(this._touchZones) * 255);
+    // Key classes are small integers - scale so each class gets its own entropy bucket
+    sketch[52] = Math.floor(this._entropy(this._keyClasses.map(c => c * 50)) * 255);
+    // Share of presses that landed while another pointer was already held
+    sketch[53] = Math.floor((this._concurrentDowns / (this._tapCount || 1)) * 255);
+    sketch[54] = Math.min(this._holds.length, 255);
 
     // Bytes 56-63: Metadata
-    sketch[56] = Math.min(this._tapIntervals.length, 255);
+    sketch[56] = Math.min(this._pressIntervals.length, 255);
     sketch[57] = Math.min(this._velocities.length, 255);
     sketch[58] = Math.min(this._tapCount, 255);
     const zonesUsed = Array.from(this._touchZones).filter(v => v > 0).length;
     sketch[59] = zonesUsed;
+    sketch[60] = Math.min(this._keyCount, 255);
+    sketch[61] = new Set(this._keyClasses).size;
+    sketch[62] = Math.min(this._maxConcurrent, 255);
+    sketch[63] = SketchVersion.V2;
 
     return bytesToHex(sketch);
   }
 
   reset(): void {
-    this._tapIntervals = [];
-    this._lastTapTime = 0;
+    this._pressIntervals = [];
+    this._lastPressTime = 0;
     this._touchZones = new Uint8Array(8);
     this._velocities = [];
     this._lastTap = null;
     this._tapCount = 0;
+    this._keyCount = 0;
+    this._keyClasses = [];
+    this._strokes.clear();
+    this._activePointers.clear();
+    this._maxConcurrent = 0;
+    this._concurrentDowns = 0;
+    this._straightness = [];
+    this._curvature = [];
+    this._speedVariation = [];
+    this._speedProfile = [0, 0, 0, 0];
+    this._strokeCount = 0;
+    this._pressStarts.clear();
+    this._holds = [];
+    this._taps = [];
+    this._diagonal = 0;
+  }
+
+  private _addPress(t: number): void {
+    if (this._lastPressTime > 0) {
+      this._pressIntervals.push(t - this._lastPressTime);
+    }
+    this._lastPressTime = t;
+  }
+
+  private _endHold(key: string, t: number): void {
+    const start = this._pressStarts.get(key);
+    if (start === undefined) return;
+    this._pressStarts.delete(key);
+    if (t >= start) this._holds.push(t - start);
+  }
+
+  /**
+   * Group taps into repeated targets (greedy, around the first tap of each).
+   * dispersion: mean RMS spread of targets hit 3+ times, as a share of the
+   *   target radius - humans scatter, scripts don't.
+   * exactRepeatRatio: share of taps on exactly the same pixel as an earlier tap.
+   */
+  private _targets(): { dispersion: number; exactRepeatRatio: number; count: number } {
+    const radius = this._diagonal * SketchBuilder._TARGET_RADIUS;
+    const clusters: { x: number; y: number }[][] = [];
+    const seen = new Set<string>();
+    let exactRepeats = 0;
+
+    for (const tap of this._taps) {
+      const key = `${tap.x},${tap.y}`;
+      if (seen.has(key)) exactRepeats++;
+      seen.add(key);
+
+      const cluster = clusters.find(c =>
+        Math.sqrt((c[0].x - tap.x) ** 2 + (c[0].y - tap.y) ** 2) <= radius
+      );
+      if (cluster) cluster.push(tap);
+      else clusters.push([tap]);
+    }
+
+    const repeated = clusters.filter(c => c.length >= SketchBuilder._MIN_TARGET_TAPS);
+    const spreads = repeated.map(c => {
+      const cx = this._mean(c.map(p => p.x));
+      const cy = this._mean(c.map(p => p.y));
+      return Math.sqrt(this._mean(c.map(p => (p.x - cx) ** 2 + (p.y - cy) ** 2)));
+    });
+
+    return {
+      dispersion: radius > 0 ? this._mean(spreads) / radius : 0,
+      exactRepeatRatio: this._taps.length > 0 ? exactRepeats / this._taps.length : 0,
+      count: repeated.length,
+    };
+  }
+
+  /**
+   * Coefficient of variation (stddev / mean). 0 for fewer than 2 values.
+   */
+  private _variation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = this._mean(values);
+    if (mean <= 0) return 0;
+    const variance = this._mean(values.map(v => (v - mean) ** 2));
+    return Math.sqrt(variance) / mean;
+  }
+
+  /**
+   * Lag-1 autocorrelation: does a long interval predict a long next one?
+   * 0 when undefined (too few values or no variance).
+   */
+  private _autocorrelation(values: number[]): number {
+    if (values.length < 3) return 0;
+    const mean = this._mean(values);
+    let num = 0;
+    let den = 0;
+    for (let i = 0; i < values.length; i++) {
+      den += (values[i] - mean) ** 2;
+      if (i > 0) num += (values[i] - mean) * (values[i - 1] - mean);
+    }
+    return den > 0 ? Math.max(-1, Math.min(num / den, 1)) : 0;
+  }
+
+  /**
+   * Trajectory features of one down → moves → up stroke. Taps without
+   * movement are skipped. Scripted swipes tend to be perfectly straight,
+   * uncurved and constant-speed; human ones accelerate then decelerate.
+   */
+  private _endStroke(points: { x: number; y: number; t: number }[]): void {
+    if (points.length < 3) return;
+
+    let pathLength = 0;
+    let turning = 0;
+    const speeds: number[] = [];
+    const segmentTimes: number[] = [];
+
+    for (let i = 1; i < points.length; i++) {
+      const dx = points[i].x - points[i - 1].x;
+      const dy = points[i].y - points[i - 1].y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      const dt = points[i].t - points[i - 1].t;
+      pathLength += dist;
+      if (dt > 0) {
+        speeds.push(dist / dt);
+        segmentTimes.push(points[i].t);
+      }
+
+      if (i >= 2) {
+        const a1 = Math.atan2(points[i - 1].y - points[i - 2].y, points[i - 1].x - points[i - 2].x);
+        const a2 = Math.atan2(dy, dx);
+        let delta = Math.abs(a2 - a1);
+        if (delta > Math.PI) delta = 2 * Math.PI - delta;
+        turning += delta;
+      }
+    }
+
+    if (pathLength === 0 || speeds.length === 0) return;
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    const chord = Math.sqrt((last.x - first.x) ** 2 + (last.y - first.y) ** 2);
+    this._straightness.push(Math.min(chord / pathLength, 1));
+    this._curvature.push(Math.min(turning / (points.length - 2) / Math.PI, 1));
+
+    const mean = this._mean(speeds);
+    const variance = this._mean(speeds.map(v => (v - mean) ** 2));
+    this._speedVariation.push(mean > 0 ? Math.min(Math.sqrt(variance) / mean, 1) : 0);
+
+    // Speed profile: mean speed per quarter of the stroke duration
+    const duration = last.t - first.t || 1;
+    const sums = [0, 0, 0, 0];
+    const counts = [0, 0, 0, 0];
+    speeds.forEach((v, i) => {
+      const q = Math.min(Math.floor(((segmentTimes[i] - first.t) / duration) * 4), 3);
+      sums[q] += v;
+      counts[q]++;
+    });
+    for (let q = 0; q < 4; q++) {
+      if (counts[q] > 0) this._speedProfile[q] += sums[q] / counts[q];
+    }
+
+    this._strokeCount++;
+  }
+
+  private _mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((a, b) => a + b, 0) / values.length;
   }
 
   private _histogram(values: number[], thresholds: number[]): number[] {
@@ -0,0 +1,92 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker, workerRequest } from '../test/worker';
+import { TranscriptRecorder, parseTranscript, TRANSCRIPT_VERSION } from './Transcript';
+import { verifyChain } from './verifier';
+import { InputDigestVersion } from './types';
+import type { RawEventTuple, WorkerCheckpointResult, WorkerProcessCheckpoint } from './types';
+
+const SESSION = { sessionId: 'transcript-session', screenW: 390, screenH: 844, ts: 1700000000000 };
+const RULES = { maxScorePerSecond: 100 };
+
+// Every row form: keyboard, pointer with id/kind, untrusted
+const EVENTS: RawEventTuple[] = [
+  { t: 5, x: 1, y: 0, e: 4 },
+  { t: 10, x: 100, y: 200, e: 0, p: 1, k: 2 },
+  { t: 90, x: 100, y: 200, e: 2, p: 1, k: 2, u: 1 },
+];
+
+function checkpoint(windowIndex: number): WorkerProcessCheckpoint {
+  return {
+    type: 'PROCESS_CHECKPOINT',
+    windowIndex,
+    nonceW: '0x' + String(windowIndex + 1).repeat(64),
+    score: 10 * (windowIndex + 1),
+    level: 1,
+    ts: SESSION.ts + (windowIndex + 1) * 5000,
+    events: EVENTS,
+    pixels: Uint8Array.from([windowIndex, 7, 7, 255]),
+    screenW: SESSION.screenW,
+    screenH: SESSION.screenH,
+  };
+}
+
+describe('Transcript', () => {
+  let worker: Worker;
+
+  before(async () => {
+    worker = await startWorker();
+  });
+
+  it('round-trips record → export → parse → verifyChain', async () => {
+    await workerRequest(worker, {
+      type: 'INIT_SESSION', ...SESSION, record: true,
+      inputDigestVersion: InputDigestVersion.V2, scoreRules: RULES,
+    }, 'SESSION_READY');
+    for (let i = 0; i < 3; i++) {
+      await workerRequest(worker, checkpoint(i), 'CHECKPOINT_RESULT');
+    }
+    await workerRequest(worker, {
+      type: 'COMPUTE_FINAL_HASH', sessionId: SESSION.sessionId, finalScore: 40, level: 1, ts: SESSION.ts + 20000,
+    }, 'FINAL_HASH_RESULT');
+    const exported = await workerRequest(worker, { type: 'EXPORT_TRANSCRIPT' }, 'TRANSCRIPT_RESULT');
+
+    const parsed = parseTranscript(exported.transcript);
+    assert.equal(parsed.version, TRANSCRIPT_VERSION);
+    assert.equal(parsed.init.inputDigestVersion, InputDigestVersion.V2);
+    assert.deepEqual(parsed.init.scoreRules, RULES);
+    assert.deepEqual(parsed.records[0].events, EVENTS);
+    assert.equal(parsed.truncatedAt, null);
+
+    const result = verifyChain(parsed.init, parsed.records, parsed.final ?? undefined);
+    assert.equal(result.valid, true);
+    assert.equal(result.initialHash, parsed.initialHash);
+    assert.notEqual(result.finalHash, null);
+  });
+
+  it('rejects versions it does not know', () => {
+    const header = { kind: 'session', v: TRANSCRIPT_VERSION + 1, sessionId: 's', screenW: 1, screenH: 1, ts: 0, initialHash: '0x' };
+    assert.throws(() => parseTranscript(JSON.stringify(header)), /Unsupported transcript version/);
+  });
+
+  it('stops keeping windows at the size cap and says where', () => {
+    const recorder = new TranscriptRecorder(2000);
+    recorder.begin({ type: 'INIT_SESSION', ...SESSION }, '0x' + '0'.repeat(64));
+    const result = { inputDigest: '0x', canvasHash: '0x', rollingHash: '0x', sketch: '0x' } as WorkerCheckpointResult;
+    for (let i = 0; i < 10; i++) recorder.checkpoint(checkpoint(i), result);
+    recorder.final(
+      { type: 'COMPUTE_FINAL_HASH', sessionId: SESSION.sessionId, finalScore: 100 },
+      { type: 'FINAL_HASH_RESULT', finalHash: '0x', rollingHash: '0x', totalWindows: 10, scoreFlags: 0, flaggedWindows: 0 }
+    );
+
+    const exported = recorder.export();
+    assert.ok(exported.length <= 2000 + 300);
+    assert.ok(recorder.windowCount > 0 && recorder.windowCount < 10);
+    assert.equal(recorder.truncatedAt, recorder.windowCount);
+
+    const parsed = parseTranscript(exported);
+    assert.equal(parsed.records.length, recorder.windowCount);
+    assert.equal(parsed.truncatedAt, recorder.windowCount);
+    assert.equal(parsed.final, null);
+  });
+});
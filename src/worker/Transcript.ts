@@ -0,0 +1,309 @@
+/**
+ * Transcript (Worker)
+ *
+ * Opt-in session recorder. When INIT_SESSION carries `record: true`, the worker
+ * keeps every PROCESS_CHECKPOINT input and CHECKPOINT_RESULT output so the
+ * session can be exported for audits (EXPORT_TRANSCRIPT). Of the image inputs
+ * only `pixels` (in the hash chain) is kept; the thumb, watermark region and
+ * bitmap are represented by their advisory results.
+ *
+ * Format: NDJSON, one record per line, first line is the versioned header.
+ *   {"kind":"session","v":2,"sessionId":...,"screenW":...,"screenH":...,"ts":...,"initialHash":...,"inputDigestVersion":2,"scoreRules":{...}}
+ *   {"kind":"checkpoint","windowIndex":0,"nonceW":...,"score":...,"level":...,"ts":...,"events":[[t,x,y,e,p,k],...],"pixels":"0x..."|null,...,"riskScore":0,"riskReasons":[]}
+ *   {"kind":"final","finalScore":...,"level":...,"ts":...,"finalHash":...,"rollingHash":...,"totalWindows":...,"scoreFlags":0}
+ *
+ * Bump TRANSCRIPT_VERSION whenever a line's shape changes, and teach
+ * parseTranscript the new version - it rejects versions it does not know.
+ *   v1: events as [t, x, y, e]; no inputDigestVersion or scoreRules
+ *   v2: events with pointer id/kind and untrusted flag; header carries
+ *       inputDigestVersion and scoreRules; final may carry truncatedAt
+ *
+ * Long sessions are capped at _MAX_BYTES of NDJSON. Windows past the cap are
+ * not kept; the final line records the first missing window (truncatedAt),
+ * and the kept prefix still verifies on its own.
+ *
+ * parseTranscript() turns an export back into verifyChain() input.
+ */
+
+import type {
+  RawEventTuple,
+  WorkerInitSession,
+  WorkerProcessCheckpoint,
+  WorkerComputeFinalHash,
+  WorkerCheckpointResult,
+  WorkerFinalHashResult,
+  ChainSessionInit,
+  ChainCheckpointRecord,
+  ChainFinal,
+  ScoreRules,
+  PerceptualHash,
+  WatermarkCheck,
+  RiskReason,
+} from './types';
+import { InputDigestVersion } from './types';
+import { bytesToHex, hexToBytes } from './crypto';
+
+export const TRANSCRIPT_VERSION = 2;
+
+const KNOWN_VERSIONS = [1, 2];
+
+/**
+ * [t, x, y, e] from pre-multi-touch shims and keyboard events, [t, x, y, e, p, k] otherwise.
+ * Untrusted events always use the long form with u appended: [t, x, y, e, p, k, u].
+ */
+type EventRow =
+  | [number, number, number, number]
+  | [number, number, number, number, number, number]
+  | [number, number, number, number, number, number, number];
+
+interface SessionLine {
+  kind: 'session';
+  v: number;
+  sessionId: string;
+  screenW: number;
+  screenH: number;
+  ts: number;
+  initialHash: string;
+  /** Absent in transcripts recorded before multi-touch support (= V1) */
+  inputDigestVersion?: InputDigestVersion;
+  /** Absent for sessions without score rules */
+  scoreRules?: ScoreRules;
+}
+
+interface CheckpointLine {
+  kind: 'checkpoint';
+  windowIndex: number;
+  nonceW: string;
+  score: number;
+  level?: number;
+  ts?: number;
+  events: EventRow[];
+  pixels: string | null;
+  screenW: number;
+  screenH: number;
+  inputDigest: string;
+  canvasHash: string;
+  rollingHash: string;
+  sketch: string;
+  eventCount: number;
+  scoreFlags?: number;
+  // Advisory outputs, absent in transcripts recorded before they existed
+  perceptualHash?: PerceptualHash | null;
+  watermark?: WatermarkCheck | null;
+  syntheticRatio?: number;
+  riskScore?: number;
+  riskReasons?: RiskReason[];
+}
+
+interface FinalLine {
+  kind: 'final';
+  finalScore: number;
+  level?: number;
+  ts?: number;
+  finalHash: string;
+  rollingHash: string;
+  totalWindows: number;
+  scoreFlags?: number;
+  /** First window not kept (size cap); absent when every window was kept */
+  truncatedAt?: number;
+}
+
+export interface ParsedTranscript {
+  version: number;
+  init: ChainSessionInit;
+  initialHash: string;
+  records: ChainCheckpointRecord[];
+  /** Null without a final line, and for truncated transcripts (the final hash covers windows not kept) */
+  final: ChainFinal | null;
+  /** First window not kept, if the recorder hit its size cap */
+  truncatedAt: number | null;
+}
+
+export class TranscriptRecorder {
+  private _lines: string[] = [];
+  private _windowCount = 0;
+  private _bytes = 0;
+  private _truncatedAt: number | null = null;
+  private _maxBytes: number;
+
+  // NDJSON size; a pixel-sampled window with a full input buffer is ~150 KB
+  private static readonly _MAX_BYTES = 32 * 1024 * 1024;
+
+  constructor(maxBytes = TranscriptRecorder._MAX_BYTES) {
+    this._maxBytes = maxBytes;
+  }
+
+  get isRecording(): boolean {
+    return this._lines.length > 0;
+  }
+
+  get windowCount(): number {
+    return this._windowCount;
+  }
+
+  /** First window not kept because of the size cap, or null */
+  get truncatedAt(): number | null {
+    return this._truncatedAt;
+  }
+
+  begin(msg: WorkerInitSession, initialHash: string): void {
+    const line: SessionLine = {
+      kind: 'session',
+      v: TRANSCRIPT_VERSION,
+      sessionId: msg.sessionId,
+      screenW: msg.screenW,
+      screenH: msg.screenH,
+      ts: msg.ts,
+      initialHash,
+      inputDigestVersion: msg.inputDigestVersion ?? InputDigestVersion.V1,
+      scoreRules: msg.scoreRules,
+    };
+    this._lines = [];
+    this._bytes = 0;
+    this._windowCount = 0;
+    this._truncatedAt = null;
+    this._push(JSON.stringify(line));
+  }
+
+  checkpoint(msg: WorkerProcessCheckpoint, result: WorkerCheckpointResult): void {
+    if (!this.isRecording || this._truncatedAt !== null) return;
+
+    const line: CheckpointLine = {
+      kind: 'checkpoint',
+      windowIndex: msg.windowIndex,
+      nonceW: msg.nonceW,
+      score: msg.score,
+      level: msg.level,
+      ts: msg.ts,
+      events: msg.events.map((ev): EventRow =>
+        ev.u
+          ? [ev.t, ev.x, ev.y, ev.e, ev.p ?? 0, ev.k ?? 0, ev.u]
+          : ev.p === undefined && ev.k === undefined
+            ? [ev.t, ev.x, ev.y, ev.e]
+            : [ev.t, ev.x, ev.y, ev.e, ev.p ?? 0, ev.k ?? 0]
+      ),
+      pixels: msg.pixels ? bytesToHex(msg.pixels) : null,
+      screenW: msg.screenW,
+      screenH: msg.screenH,
+      inputDigest: result.inputDigest,
+      canvasHash: result.canvasHash,
+      rollingHash: result.rollingHash,
+      sketch: result.sketch,
+      eventCount: result.eventCount,
+      scoreFlags: result.scoreFlags,
+      perceptualHash: result.perceptualHash,
+      watermark: result.watermark,
+      syntheticRatio: result.syntheticRatio,
+      riskScore: result.riskScore,
+      riskReasons: result.riskReasons,
+    };
+    const json = JSON.stringify(line);
+    if (this._bytes + json.length + 1 > this._maxBytes) {
+      this._truncatedAt = msg.windowIndex;
+      return;
+    }
+    this._push(json);
+    this._windowCount++;
+  }
+
+  final(msg: WorkerComputeFinalHash, result: WorkerFinalHashResult): void {
+    if (!this.isRecording) return;
+
+    const line: FinalLine = {
+      kind: 'final',
+      finalScore: msg.finalScore,
+      level: msg.level,
+      ts: msg.ts,
+      finalHash: result.finalHash,
+      rollingHash: result.rollingHash,
+      totalWindows: result.totalWindows,
+      scoreFlags: result.scoreFlags,
+      ...(this._truncatedAt !== null ? { truncatedAt: this._truncatedAt } : {}),
+    };
+    // Always kept, past the cap too: it says where the transcript stops
+    this._push(JSON.stringify(line));
+  }
+
+  export(): string {
+    return this._lines.join('\n') + '\n';
+  }
+
+  reset(): void {
+    this._lines = [];
+    this._bytes = 0;
+    this._windowCount = 0;
+    this._truncatedAt = null;
+  }
+
+  private _push(json: string): void {
+    this._lines.push(json);
+    this._bytes += json.length + 1;
+  }
+}
+
+/**
+ * Parse an NDJSON transcript into the shape verifyChain() expects.
+ * Throws on an unknown version or a transcript without a session header.
+ */
+export function parseTranscript(ndjson: string): ParsedTranscript {
+  const lines = ndjson.split('\n').filter(l => l.trim() !== '');
+  if (lines.length === 0) throw new Error('Empty transcript');
+
+  const header = JSON.parse(lines[0]) as SessionLine;
+  if (header.kind !== 'session') throw new Error('Transcript has no session header');
+  if (!KNOWN_VERSIONS.includes(header.v)) throw new Error(`Unsupported transcript version ${header.v}`);
+
+  const records: ChainCheckpointRecord[] = [];
+  let final: ChainFinal | null = null;
+  let truncatedAt: number | null = null;
+
+  for (let i = 1; i < lines.length; i++) {
+    const line = JSON.parse(lines[i]) as CheckpointLine | FinalLine;
+
+    if (line.kind === 'checkpoint') {
+      records.push({
+        windowIndex: line.windowIndex,
+        nonceW: line.nonceW,
+        score: line.score,
+        level: line.level,
+        ts: line.ts,
+        events: line.events.map((row): RawEventTuple => {
+          const ev: RawEventTuple = { t: row[0], x: row[1], y: row[2], e: row[3] };
+          if (row.length >= 6) {
+            ev.p = row[4];
+            ev.k = row[5];
+          }
+          if (row.length === 7) ev.u = row[6];
+          return ev;
+        }),
+        pixels: line.pixels ? hexToBytes(line.pixels) : null,
+        screenW: line.screenW,
+        screenH: line.screenH,
+        inputDigest: line.inputDigest,
+        canvasHash: line.canvasHash,
+        rollingHash: line.rollingHash,
+      });
+    } else if (line.kind === 'final') {
+      truncatedAt = line.truncatedAt ?? null;
+      if (truncatedAt === null) {
+        final = { finalScore: line.finalScore, level: line.level, ts: line.ts, finalHash: line.finalHash };
+      }
+    }
+  }
+
+  return {
+    version: header.v,
+    init: {
+      sessionId: header.sessionId,
+      screenW: header.screenW,
+      screenH: header.screenH,
+      ts: header.ts,
+      inputDigestVersion: header.inputDigestVersion ?? InputDigestVersion.V1,
+      scoreRules: header.scoreRules,
+    },
+    initialHash: header.initialHash,
+    records,
+    final,
+    truncatedAt,
+  };
+}
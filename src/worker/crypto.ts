@@ -8,7 +8,8 @@
  */
 
 import { keccak_256 } from '@noble/hashes/sha3.js';
-import type { RawEventTuple } from './types';
+import type { ChainedScore, RawEventTuple } from './types';
+import { InputDigestVersion } from './types';
 
 // ============================================================
 // Encoding
@@ -71,29 +72,41 @@ export function computeInitialHash(
 }
 
 /**
- * H[w] = keccak256(H[w-1] | nonceW | inputDigest | canvasHash | score)
+ * H[w] = keccak256(H[w-1] | nonceW | inputDigest | canvasHash | score [| flags | level | ts])
+ *
+ * The score terms are only appended for sessions with ScoreRules, so chains
+ * recorded without them hash exactly as before. A missing level or ts hashes
+ * as an empty term.
  */
 export function computeRollingHash(
   prevHash: string,
   nonceW: string,
   inputDigest: string,
   canvasHash: string,
-  score: number
+  score: number,
+  scored?: ChainedScore
 ): string {
-  return keccak256(
-    [prevHash || '0x', nonceW, inputDigest, canvasHash, score.toString()].join('|')
-  );
+  const parts = [prevHash || '0x', nonceW, inputDigest, canvasHash, score.toString()];
+  if (scored) parts.push(...scoreTerms(scored));
+  return keccak256(parts.join('|'));
 }
 
 /**
- * finalHash = keccak256(sessionId | rollingHash | finalScore)
+ * finalHash = keccak256(sessionId | rollingHash | finalScore [| flags | level | ts])
  */
 export function computeFinalHash(
   sessionId: string,
   rollingHash: string,
-  finalScore: number
+  finalScore: number,
+  scored?: ChainedScore
 ): string {
-  return keccak256(`${sessionId}|${rollingHash}|${finalScore}`);
+  const parts = [sessionId, rollingHash, finalScore.toString()];
+  if (scored) parts.push(...scoreTerms(scored));
+  return keccak256(parts.join('|'));
+}
+
+function scoreTerms(scored: ChainedScore): string[] {
+  return [scored.flags.toString(), scored.level?.toString() ?? '', scored.ts?.toString() ?? ''];
 }
 
 // ============================================================
@@ -102,13 +115,21 @@ export function computeFinalHash(
 
 /**
  * Compute keccak256 over compact event tuples.
- * Encodes each event as 20 bytes: float64(t) + float32(x) + float32(y) + uint8(e) + 3 padding.
+ *
+ * V1 encodes each event as 20 bytes: float64(t) + float32(x) + float32(y) + uint8(e) + 3 padding.
+ * V2 encodes each event as 24 bytes: V1 layout with uint8(k) + uint8(u) after e, then 1 padding + uint32(p).
  * Float64 for timestamp preserves precision for sessions up to weeks.
+ * Keyboard tuples use the same layout: x carries the key class, y is 0.
+ *
+ * V1 stays the default so sessions recorded before multi-touch remain verifiable.
  */
-export function computeInputDigest(events: RawEventTuple[]): string {
+export function computeInputDigest(
+  events: RawEventTuple[],
+  version: InputDigestVersion = InputDigestVersion.V1
+): string {
   if (events.length === 0) return '0x0';
 
-  const STRIDE = 20;
+  const STRIDE = version === InputDigestVersion.V2 ? 24 : 20;
   const buffer = new ArrayBuffer(events.length * STRIDE);
   const view = new DataView(buffer);
 
@@ -118,6 +139,12 @@ export function computeInputDigest(events: RawEventTuple[]): string {
     view.setFloat32(offset + 8, events[i].x, false);
     view.setFloat32(offset + 12, events[i].y, false);
     view.setUint8(offset + 16, events[i].e);
+
+    if (version === InputDigestVersion.V2) {
+      view.setUint8(offset + 17, events[i].k ?? 0);
+      view.setUint8(offset + 18, events[i].u ?? 0);
+      view.setUint32(offset + 20, events[i].p ?? 0, false);
+    }
   }
 
   return keccak256Bytes(new Uint8Array(buffer));
@@ -5,8 +5,13 @@
  * Handles all cryptographic operations off the main thread:
  *   - Rolling hash chain (keccak256)
  *   - Input digest computation
- *   - Canvas hash computation
+ *   - Canvas hash computation (exact + perceptual)
+ *   - Canvas watermark issuing and write read-back
  *   - Behavioral sketch building (64-byte fingerprint)
+ *   - Per-window bot risk scoring
+ *   - Score plausibility rules (flags bound into the chain)
+ *   - Opt-in session transcript recording
+ *   - Protocol version / capability negotiation with GameBox
  *
  * GameBox loads this as: new Worker('security-worker.min.js')
  */
@@ -15,7 +20,10 @@ import type {
   WorkerInboundMessage,
   WorkerOutboundMessage,
   WorkerCheckpointResult,
+  WorkerFinalHashResult,
 } from './types';
+import type { ScoreRules, ProtocolHello } from './types';
+import { InputDigestVersion, Capability } from './types';
 
 import {
   computeInitialHash,
@@ -23,9 +31,37 @@ import {
   computeInputDigest,
   computeCanvasHash,
   computeFinalHash,
+  bytesToHex,
 } from './crypto';
 
+import { computePerceptualHash } from './perceptual';
+import { sampleBitmap, bitmapThumbnail, bitmapRegion } from './sampling';
+import { deriveWatermarkPayload, encodeWatermark, verifyWatermark } from './watermark';
+import { scoreRisk } from './risk';
+import { decodeSketch } from './sketch';
+import { checkScore, advanceScorePoint } from './plausibility';
+import { PROTOCOL_VERSION, negotiate } from './protocol';
+import type { ScorePoint } from './plausibility';
 import { SketchBuilder } from './SketchBuilder';
+import { TranscriptRecorder, TRANSCRIPT_VERSION } from './Transcript';
+
+// ============================================================
+// Capabilities
+// ============================================================
+
+const WORKER_HELLO: ProtocolHello = {
+  protocolVersion: PROTOCOL_VERSION,
+  capabilities: [
+    Capability.DIGEST_V2,
+    Capability.CANVAS_THUMB,
+    Capability.WATERMARK,
+    Capability.RISK,
+    Capability.SCORE_RULES,
+    Capability.TRANSCRIPT,
+    // Bitmap sampling draws into an OffscreenCanvas (Safari 16.4+)
+    ...(typeof OffscreenCanvas !== 'undefined' ? [Capability.CANVAS_BITMAP] : []),
+  ],
+};
 
 // ============================================================
 // Worker State
@@ -34,7 +70,15 @@ import { SketchBuilder } from './SketchBuilder';
 let sessionId = '';
 let rollingHash = '';
 let windowIndex = 0;
+let inputDigestVersion: InputDigestVersion = InputDigestVersion.V1;
+let watermarkPayload: Uint8Array | null = null;
+let watermarkCounter = 0;
+let scoreRules: ScoreRules | null = null;
+let lastScore: ScorePoint = { score: 0 };
+let sessionScoreFlags = 0;
+let flaggedWindows = 0;
 const sketch = new SketchBuilder();
+const transcript = new TranscriptRecorder();
 
 function send(msg: WorkerOutboundMessage): void {
   (self as unknown as Worker).postMessage(msg);
@@ -50,9 +94,21 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
   try {
     switch (msg.type) {
 
+      case 'NEGOTIATE': {
+        send({ type: 'NEGOTIATED', ...negotiate(WORKER_HELLO, msg) });
+        break;
+      }
+
       case 'INIT_SESSION': {
         sessionId = msg.sessionId;
         windowIndex = 0;
+        inputDigestVersion = msg.inputDigestVersion ?? InputDigestVersion.V1;
+        watermarkPayload = null;
+        watermarkCounter = 0;
+        scoreRules = msg.scoreRules ?? null;
+        lastScore = { score: 0, level: 0, ts: msg.ts };
+        sessionScoreFlags = 0;
+        flaggedWindows = 0;
         sketch.reset();
 
         rollingHash = computeInitialHash(
@@ -62,6 +118,12 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
           msg.ts
         );
 
+        if (msg.record) {
+          transcript.begin(msg, rollingHash);
+        } else {
+          transcript.reset();
+        }
+
         send({ type: 'SESSION_READY', initialHash: rollingHash });
         break;
       }
@@ -72,19 +134,53 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
           return;
         }
 
-        const inputDigest = computeInputDigest(msg.events);
-        const canvasHash = computeCanvasHash(msg.pixels);
+        // Bitmap capture mode: sample here, exactly as the shim would have
+        let pixels = msg.pixels;
+        let thumb = msg.thumb;
+        let region = msg.watermark;
+        if (msg.bitmap) {
+          pixels = sampleBitmap(msg.bitmap, msg.seed ?? 0);
+          thumb = bitmapThumbnail(msg.bitmap);
+          if (watermarkPayload) region = bitmapRegion(msg.bitmap);
+          msg.bitmap.close();
+        }
+
+        const inputDigest = computeInputDigest(msg.events, inputDigestVersion);
+        const canvasHash = computeCanvasHash(pixels);
+        const perceptualHash = computePerceptualHash(thumb);
+        const watermark = verifyWatermark(region, watermarkPayload);
+
+        // Script-dispatched input is hashed (it happened) but kept out of the sketch
+        const trusted = msg.events.filter(ev => !ev.u);
+        const syntheticRatio = msg.events.length > 0
+          ? (msg.events.length - trusted.length) / msg.events.length
+          : 0;
 
-        sketch.ingest(msg.events, msg.screenW, msg.screenH);
+        sketch.ingest(trusted, msg.screenW, msg.screenH);
         const sketchHex = sketch.build();
         sketch.reset();
 
+        const risk = scoreRisk({
+          sketch: decodeSketch(sketchHex),
+          events: trusted,
+          screenW: msg.screenW,
+          screenH: msg.screenH,
+          syntheticRatio,
+        });
+
+        const point: ScorePoint = { score: msg.score, level: msg.level, ts: msg.ts };
+        const scoreFlags = scoreRules ? checkScore(scoreRules, lastScore, point) : 0;
+        lastScore = advanceScorePoint(lastScore, point);
+        sessionScoreFlags |= scoreFlags;
+        if (scoreFlags) flaggedWindows++;
+
         rollingHash = computeRollingHash(
           rollingHash,
           msg.nonceW,
           inputDigest,
           canvasHash,
-          msg.score
+          msg.score,
+          scoreRules ? { flags: scoreFlags, level: msg.level, ts: msg.ts } : undefined
         );
 
         windowIndex = msg.windowIndex + 1;
@@ -94,11 +190,19 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
           windowIndex: msg.windowIndex,
           inputDigest,
           canvasHash,
+          perceptualHash,
+          watermark,
           rollingHash,
           sketch: sketchHex,
           eventCount: msg.events.length,
+          inputDigestVersion,
+          syntheticRatio,
+          riskScore: risk.score,
+          riskReasons: risk.reasons,
+          scoreFlags,
         };
 
+        transcript.checkpoint({ ...msg, pixels, thumb, watermark: region, bitmap: undefined }, result);
         send(result);
         break;
       }
@@ -109,17 +213,59 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
           return;
         }
 
+        const finalFlags = scoreRules
+          ? sessionScoreFlags | checkScore(scoreRules, lastScore, { score: msg.finalScore, level: msg.level, ts: msg.ts })
+          : 0;
+
         const finalHash = computeFinalHash(
           sessionId,
           rollingHash,
-          msg.finalScore
+          msg.finalScore,
+          scoreRules ? { flags: finalFlags, level: msg.level, ts: msg.ts } : undefined
         );
 
-        send({
+        const finalResult: WorkerFinalHashResult = {
           type: 'FINAL_HASH_RESULT',
           finalHash,
           rollingHash,
           totalWindows: windowIndex,
+          scoreFlags: finalFlags,
+          flaggedWindows,
+        };
+
+        transcript.final(msg, finalResult);
+        send(finalResult);
+        break;
+      }
+
+      case 'EXPORT_TRANSCRIPT': {
+        if (!transcript.isRecording) {
+          send({ type: 'ERROR', message: 'Recording not enabled for this session', context: msg.type });
+          return;
+        }
+
+        send({
+          type: 'TRANSCRIPT_RESULT',
+          format: 'ndjson',
+          version: TRANSCRIPT_VERSION,
+          transcript: transcript.export(),
+          totalWindows: transcript.windowCount,
+          truncatedAt: transcript.truncatedAt,
+        });
+        break;
+      }
+
+      case 'CREATE_WATERMARK': {
+        if (!sessionId) {
+          send({ type: 'ERROR', message: 'No active session', context: msg.type });
+          return;
+        }
+
+        watermarkPayload = deriveWatermarkPayload(rollingHash, watermarkCounter++);
+        send({
+          type: 'WATERMARK_DATA',
+          data: encodeWatermark(watermarkPayload),
+          payload: bytesToHex(watermarkPayload),
         });
         break;
       }
@@ -128,7 +274,15 @@ self.onmessage = (e: MessageEvent<WorkerInboundMessage>) => {
         sessionId = '';
         rollingHash = '';
         windowIndex = 0;
+        inputDigestVersion = InputDigestVersion.V1;
+        watermarkPayload = null;
+        watermarkCounter = 0;
+        scoreRules = null;
+        lastScore = { score: 0 };
+        sessionScoreFlags = 0;
+        flaggedWindows = 0;
         sketch.reset();
+        transcript.reset();
         break;
       }
     }
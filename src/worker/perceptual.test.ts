@@ -0,0 +1,62 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { computePerceptualHash, hammingDistance } from './perceptual';
+import { PerceptualThumb } from './types';
+
+const { WIDTH, HEIGHT } = PerceptualThumb;
+
+/**
+ * A 9x8 RGBA thumbnail from a luma function, plus a uniform brightness shift.
+ */
+function thumb(luma: (x: number, y: number) => number, shift = 0): Uint8Array {
+  const rgba = new Uint8Array(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const v = Math.max(0, Math.min(255, luma(x, y) + shift));
+      rgba.set([v, v, v, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return rgba;
+}
+
+// A game frame: diagonal gradient with a bright sprite
+const scene = (x: number, y: number) => 40 + x * 13 + y * 7 + (x > 2 && x < 6 && y > 2 && y < 5 ? 90 : 0);
+// Another screen: gradient the other way, sprite in the opposite corner
+const other = (x: number, y: number) => 240 - x * 13 - y * 7 - (x < 3 && y > 4 ? 90 : 0);
+
+describe('computePerceptualHash', () => {
+  it('returns 64-bit hashes, null for a missing or mis-sized thumbnail', () => {
+    const hash = computePerceptualHash(thumb(scene));
+
+    assert.match(hash!.dHash, /^0x[0-9a-f]{16}$/);
+    assert.match(hash!.aHash, /^0x[0-9a-f]{16}$/);
+    assert.equal(computePerceptualHash(null), null);
+    assert.equal(computePerceptualHash(new Uint8Array(16)), null);
+  });
+
+  it('keeps both hashes under a small brightness shift', () => {
+    const base = computePerceptualHash(thumb(scene))!;
+
+    for (const shift of [-6, 3, 8]) {
+      const shifted = computePerceptualHash(thumb(scene, shift))!;
+      assert.ok(hammingDistance(base.dHash, shifted.dHash) <= 2, `dHash moved at shift ${shift}`);
+      assert.ok(hammingDistance(base.aHash, shifted.aHash) <= 2, `aHash moved at shift ${shift}`);
+    }
+  });
+
+  it('moves away from a different frame', () => {
+    const a = computePerceptualHash(thumb(scene))!;
+    const b = computePerceptualHash(thumb(other))!;
+
+    assert.ok(hammingDistance(a.dHash, b.dHash) >= 16);
+    assert.ok(hammingDistance(a.aHash, b.aHash) >= 16);
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    assert.equal(hammingDistance('0x0000000000000000', '0x0000000000000000'), 0);
+    assert.equal(hammingDistance('0x0000000000000000', '0x8000000000000001'), 2);
+    assert.equal(hammingDistance('0x0000000000000000', '0xffffffffffffffff'), 64);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Perceptual Canvas Fingerprint
+ *
+ * dHash/aHash over the small PerceptualThumb capture sent by the shim.
+ * Unlike computeCanvasHash (exact bytes), these survive GPU dithering,
+ * anti-aliasing and scaling differences, so windows can be compared with
+ * each other, across devices, or against a server re-render:
+ *   - Frozen screen: consecutive windows at distance ~0 while input flows
+ *   - Wrong game: large distance from the reference renders for the title
+ *   - Replayed video: a window matching an earlier one out of order
+ */
+
+import type { PerceptualHash } from './types';
+import { PerceptualThumb } from './types';
+
+const CELLS = PerceptualThumb.WIDTH * PerceptualThumb.HEIGHT;
+
+/**
+ * Returns null if the thumbnail is missing or has the wrong size.
+ */
+export function computePerceptualHash(thumb: Uint8Array | null | undefined): PerceptualHash | null {
+  if (!thumb || thumb.length !== CELLS * 4) return null;
+
+  const luma = new Float64Array(CELLS);
+  for (let i = 0; i < CELLS; i++) {
+    const o = i * 4;
+    luma[i] = 0.299 * thumb[o] + 0.587 * thumb[o + 1] + 0.114 * thumb[o + 2];
+  }
+
+  const dBits: number[] = [];
+  const cells: number[] = [];
+
+  for (let y = 0; y < PerceptualThumb.HEIGHT; y++) {
+    const row = y * PerceptualThumb.WIDTH;
+    for (let x = 0; x < PerceptualThumb.WIDTH - 1; x++) {
+      const left = luma[row + x];
+      const right = luma[row + x + 1];
+      dBits.push(left > right ? 1 : 0);
+      // aHash runs on 8x8: average adjacent columns to resample 9 → 8
+      cells.push((left + right) / 2);
+    }
+  }
+
+  const mean = cells.reduce((a, b) => a + b, 0) / cells.length;
+  const aBits = cells.map(c => (c > mean ? 1 : 0));
+
+  return { dHash: bitsToHex(dBits), aHash: bitsToHex(aBits) };
+}
+
+/**
+ * Number of differing bits between two perceptual hashes (0-64).
+ */
+export function hammingDistance(a: string, b: string): number {
+  const x = BigInt(a) ^ BigInt(b);
+  let count = 0;
+  for (let v = x; v > 0n; v >>= 1n) {
+    if (v & 1n) count++;
+  }
+  return count;
+}
+
+function bitsToHex(bits: number[]): string {
+  let hex = '0x';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return hex;
+}
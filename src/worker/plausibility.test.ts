@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkScore, advanceScorePoint } from './plausibility';
+import { ScoreFlag } from './types';
+
+const START = { score: 0, level: 0, ts: 1700000000000 };
+
+describe('checkScore', () => {
+  it('flags a decrease only under a monotonic rule', () => {
+    const prev = { score: 50, ts: START.ts };
+    const next = { score: 40, ts: START.ts + 5000 };
+
+    assert.equal(checkScore({ monotonic: true }, prev, next), ScoreFlag.DECREASED);
+    assert.equal(checkScore({}, prev, next), 0);
+    assert.equal(checkScore({ monotonic: true }, prev, { ...next, score: 50 }), 0);
+  });
+
+  it('flags scores off the step, with float tolerance', () => {
+    assert.equal(checkScore({ scoreStep: 10 }, START, { score: 35 }), ScoreFlag.OFF_STEP);
+    assert.equal(checkScore({ scoreStep: 10 }, START, { score: 40 }), 0);
+    assert.equal(checkScore({ scoreStep: 0.1 }, START, { score: 0.1 + 0.2 }), 0);
+  });
+
+  it('flags a score gained faster than the rate', () => {
+    const rules = { maxScorePerSecond: 10 };
+
+    assert.equal(checkScore(rules, START, { score: 50, ts: START.ts + 5000 }), 0);
+    assert.equal(checkScore(rules, START, { score: 51, ts: START.ts + 5000 }), ScoreFlag.SCORE_RATE);
+    assert.equal(checkScore(rules, START, { score: 1, ts: START.ts }), ScoreFlag.SCORE_RATE);
+  });
+
+  it('flags levels gained faster than the rate', () => {
+    const rules = { maxLevelPerSecond: 0.5 };
+
+    assert.equal(checkScore(rules, START, { score: 0, level: 2, ts: START.ts + 4000 }), 0);
+    assert.equal(checkScore(rules, START, { score: 0, level: 3, ts: START.ts + 4000 }), ScoreFlag.LEVEL_RATE);
+    assert.equal(checkScore(rules, START, { score: 0, ts: START.ts + 10 }), 0);
+  });
+
+  it('skips the rate rules on a first window without a previous ts', () => {
+    const rules = { maxScorePerSecond: 1, maxLevelPerSecond: 0.1 };
+
+    assert.equal(checkScore(rules, { score: 0 }, { score: 1000, level: 9, ts: START.ts }), 0);
+    assert.equal(checkScore(rules, START, { score: 1000, level: 9 }), 0);
+  });
+
+  it('ORs every violated rule', () => {
+    const rules = { monotonic: true, scoreStep: 5, maxScorePerSecond: 1 };
+    const flags = checkScore(rules, { score: 10, ts: START.ts }, { score: 3, ts: START.ts });
+
+    assert.equal(flags, ScoreFlag.DECREASED | ScoreFlag.OFF_STEP);
+  });
+});
+
+describe('advanceScorePoint', () => {
+  it('carries level and ts over when a checkpoint omits them', () => {
+    assert.deepEqual(advanceScorePoint(START, { score: 20 }), { score: 20, level: 0, ts: START.ts });
+    assert.deepEqual(
+      advanceScorePoint(START, { score: 20, level: 2, ts: START.ts + 1 }),
+      { score: 20, level: 2, ts: START.ts + 1 }
+    );
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Score Plausibility (Worker)
+ *
+ * Checks each reported score against the per-game ScoreRules from
+ * INIT_SESSION. Unlike risk scoring, the result is not advisory: the flags
+ * are chained into the rolling hash (and the session total into finalHash),
+ * so GameBox cannot drop them without breaking verification.
+ *
+ * No DOM or Worker APIs - verifier.ts replays the same checks server-side.
+ */
+
+import type { ScoreRules } from './types';
+import { ScoreFlag } from './types';
+
+/**
+ * What the previous check saw (session start: score 0, level 0, INIT_SESSION ts).
+ */
+export interface ScorePoint {
+  score: number;
+  level?: number;
+  ts?: number;
+}
+
+/**
+ * Tolerance for scoreStep on fractional scores (0.1 + 0.2 is not 0.3).
+ */
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Returns the ScoreFlag bits `next` violates, 0 if it is plausible.
+ * Rate rules compare against `prev` and need both timestamps; a gain with no
+ * elapsed time always exceeds the rate.
+ */
+export function checkScore(rules: ScoreRules, prev: ScorePoint, next: ScorePoint): number {
+  let flags = 0;
+
+  if (rules.monotonic && next.score < prev.score) {
+    flags |= ScoreFlag.DECREASED;
+  }
+
+  if (rules.scoreStep && rules.scoreStep > 0) {
+    const steps = next.score / rules.scoreStep;
+    if (Math.abs(steps - Math.round(steps)) > STEP_EPSILON) flags |= ScoreFlag.OFF_STEP;
+  }
+
+  if (prev.ts !== undefined && next.ts !== undefined) {
+    const seconds = (next.ts - prev.ts) / 1000;
+
+    if (rules.maxScorePerSecond !== undefined &&
+        exceedsRate(next.score - prev.score, seconds, rules.maxScorePerSecond)) {
+      flags |= ScoreFlag.SCORE_RATE;
+    }
+
+    if (rules.maxLevelPerSecond !== undefined && next.level !== undefined &&
+        exceedsRate(next.level - (prev.level ?? 0), seconds, rules.maxLevelPerSecond)) {
+      flags |= ScoreFlag.LEVEL_RATE;
+    }
+  }
+
+  return flags;
+}
+
+function exceedsRate(gain: number, seconds: number, maxPerSecond: number): boolean {
+  if (gain <= 0) return false;
+  return seconds <= 0 || gain / seconds > maxPerSecond;
+}
+
+/**
+ * The point the next check compares against. Level carries over when a
+ * checkpoint did not report one.
+ */
+export function advanceScorePoint(prev: ScorePoint, next: ScorePoint): ScorePoint {
+  return {
+    score: next.score,
+    level: next.level ?? prev.level,
+    ts: next.ts ?? prev.ts,
+  };
+}
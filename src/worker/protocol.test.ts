@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { hasCapability, negotiate } from './protocol';
+import { Capability, ProtocolVersion } from './types';
+import type { ProtocolHello } from './types';
+
+const OURS: ProtocolHello = {
+  protocolVersion: ProtocolVersion.V2,
+  capabilities: [Capability.REQUEST_ID, Capability.CHANNEL, Capability.WATERMARK],
+};
+
+describe('negotiate', () => {
+  it('agrees on the lower version', () => {
+    assert.equal(negotiate(OURS, { protocolVersion: 1, capabilities: [] }).protocolVersion, ProtocolVersion.V1);
+    assert.equal(negotiate(OURS, { protocolVersion: 9, capabilities: [] }).protocolVersion, ProtocolVersion.V2);
+  });
+
+  it('keeps only the capabilities both sides declared, in our order', () => {
+    const agreed = negotiate(OURS, {
+      protocolVersion: 2,
+      capabilities: [Capability.WATERMARK, 'future.feature', Capability.REQUEST_ID],
+    });
+
+    assert.deepEqual(agreed.capabilities, [Capability.REQUEST_ID, Capability.WATERMARK]);
+  });
+
+  it('treats a missing or invalid version as a V1 party with no capabilities', () => {
+    const legacy = { protocolVersion: ProtocolVersion.V1, capabilities: [] };
+
+    for (const theirs of [undefined, null, {}, { protocolVersion: '2' }, { protocolVersion: 1.5 }, { protocolVersion: 0 }]) {
+      assert.deepEqual(negotiate(OURS, theirs), legacy);
+    }
+  });
+
+  it('ignores capabilities that are not a list', () => {
+    assert.deepEqual(negotiate(OURS, { protocolVersion: 2, capabilities: 'channel' }).capabilities, []);
+  });
+});
+
+describe('hasCapability', () => {
+  it('is false without an agreement', () => {
+    assert.equal(hasCapability(null, Capability.CHANNEL), false);
+    assert.equal(hasCapability(OURS, Capability.CHANNEL), true);
+    assert.equal(hasCapability(OURS, Capability.STREAMR), false);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Protocol Negotiation
+ *
+ * Each party declares a ProtocolHello (version + capabilities); the agreement
+ * is the lower version and the capabilities both sides declared. Shared by
+ * the SDK shim (SDK_SESSION_INIT), the Worker (NEGOTIATE) and GameBox.
+ *
+ * No crypto here - safe to import from the shim.
+ */
+
+import type { Capability, ProtocolHello } from './types';
+import { ProtocolVersion } from './types';
+
+/** Version this build speaks */
+export const PROTOCOL_VERSION: ProtocolVersion = ProtocolVersion.V2;
+
+/**
+ * Agree with whatever the other side sent. A message without protocolVersion
+ * comes from a pre-negotiation build: V1 with no capabilities, so only the
+ * features every v1 party had (plain requests and responses) are used.
+ */
+export function negotiate(
+  ours: ProtocolHello,
+  theirs: { protocolVersion?: unknown; capabilities?: unknown } | null | undefined
+): ProtocolHello {
+  const version = theirs?.protocolVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < ProtocolVersion.V1) {
+    return { protocolVersion: ProtocolVersion.V1, capabilities: [] };
+  }
+
+  const declared = theirs?.capabilities;
+  const offered: unknown[] = Array.isArray(declared) ? declared : [];
+  return {
+    protocolVersion: Math.min(ours.protocolVersion, version),
+    capabilities: ours.capabilities.filter(c => offered.includes(c)),
+  };
+}
+
+/**
+ * Whether an agreement (or a declaration) includes a capability; false
+ * before there is one.
+ */
+export function hasCapability(agreed: ProtocolHello | null, capability: Capability): boolean {
+  return agreed !== null && agreed.capabilities.includes(capability);
+}
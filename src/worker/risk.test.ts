@@ -0,0 +1,85 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { captureTaps, type Tap } from '../test/input';
+import { SketchBuilder } from './SketchBuilder';
+import { decodeSketch } from './sketch';
+import { scoreRisk } from './risk';
+import { RiskReason } from './types';
+
+const SCREEN_W = 800;
+const SCREEN_H = 600;
+
+const HUMAN: Tap[] = [
+  { t: 1000, x: 100, y: 200, hold: 70 },
+  { t: 1340, x: 112, y: 205, hold: 95 },
+  { t: 1610, x: 96, y: 190, hold: 82 },
+  { t: 2050, x: 105, y: 214, hold: 110 },
+  { t: 2260, x: 300, y: 400, hold: 64 },
+  { t: 2700, x: 108, y: 198, hold: 88 },
+];
+
+// Rhythm-game play on a ~430ms beat: every interval in one 50ms bucket
+const RHYTHM: Tap[] = [1000, 1405, 1851, 2263, 2704, 3112, 3549].map((t, i) => ({
+  t, x: 100 + (i % 3) * 90, y: 400 + (i % 2) * 12, hold: 80 + (i % 4) * 9,
+}));
+
+const CLICKER: Tap[] = Array.from({ length: 10 }, (_, i) => ({ t: 1000 + i * 100, x: 200, y: 300, hold: 50 }));
+
+// Same path as PROCESS_CHECKPOINT: capture → sketch → decode → score
+function score(taps: Tap[], pointerType = 'touch') {
+  const events = captureTaps(taps, pointerType);
+  const builder = new SketchBuilder();
+  builder.ingest(events, SCREEN_W, SCREEN_H);
+  return scoreRisk({
+    sketch: decodeSketch(builder.build()),
+    events,
+    screenW: SCREEN_W,
+    screenH: SCREEN_H,
+    syntheticRatio: 0,
+  });
+}
+
+describe('scoreRisk', () => {
+  before(() => {
+    installDom();
+  });
+
+  it('scores human touch play 0', () => {
+    assert.deepEqual(score(HUMAN), { score: 0, reasons: [] });
+  });
+
+  it('does not take a steady human rhythm for zero interval entropy', () => {
+    const risk = score(RHYTHM);
+
+    assert.ok(!risk.reasons.includes(RiskReason.ZERO_INTERVAL_ENTROPY));
+  });
+
+  it('flags a touch auto-clicker on every timing and spatial rule', () => {
+    const risk = score(CLICKER);
+
+    assert.equal(risk.score, 100);
+    assert.deepEqual(risk.reasons, [
+      RiskReason.REGULAR_INTERVALS,
+      RiskReason.ZERO_INTERVAL_ENTROPY,
+      RiskReason.CONSTANT_HOLDS,
+      RiskReason.EXACT_REPEAT_TAPS,
+      RiskReason.NO_TARGET_DISPERSION,
+    ]);
+  });
+
+  it('does not treat a parked mouse as a repeated-pixel bot', () => {
+    const risk = score(HUMAN.map(tap => ({ ...tap, x: 200, y: 300 })), 'mouse');
+
+    assert.ok(!risk.reasons.includes(RiskReason.EXACT_REPEAT_TAPS));
+    assert.ok(!risk.reasons.includes(RiskReason.NO_TARGET_DISPERSION));
+    assert.equal(risk.score, 0);
+  });
+
+  it('still flags mouse clicks on a timer', () => {
+    const risk = score(CLICKER, 'mouse');
+
+    assert.ok(risk.reasons.includes(RiskReason.REGULAR_INTERVALS));
+    assert.ok(!risk.reasons.includes(RiskReason.EXACT_REPEAT_TAPS));
+  });
+});
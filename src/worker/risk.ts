@@ -0,0 +1,134 @@
+/**
+ * Window Risk Scoring (Worker)
+ *
+ * Rules-based bot risk for one checkpoint window, from the v2 sketch plus the
+ * window's raw facts. Each triggered rule adds its weight; the total is capped
+ * at 100. Every rule needs a minimum amount of evidence, so quiet windows
+ * (menus, pauses) score 0 rather than looking "perfectly regular".
+ *
+ * Advisory: GameBox decides what to do (pause, challenge, flag for review).
+ * Not part of the rolling hash.
+ */
+
+import type { RawEventTuple } from './types';
+import { EventCode, PointerKind, RiskReason } from './types';
+import type { SketchFeatures } from './sketch';
+
+export interface RiskInput {
+  /** Decoded SketchBuilder.build() output for the window */
+  sketch: SketchFeatures;
+  /** Trusted events of the window (what the sketch was built from) */
+  events: RawEventTuple[];
+  screenW: number;
+  screenH: number;
+  /** Share of script-dispatched events (0..1) */
+  syntheticRatio: number;
+}
+
+export interface RiskResult {
+  score: number;
+  reasons: RiskReason[];
+}
+
+interface RiskRule {
+  reason: RiskReason;
+  weight: number;
+  test: (input: RiskInput) => boolean;
+}
+
+const MIN_INTERVALS = 5;
+const MIN_TAPS = 5;
+const MIN_STROKES = 3;
+const NEAR_ZERO = 0.05;
+// Interval entropy buckets are 50ms wide, so a steady human rhythm (a beat
+// held within a few %) can land in one; a timer also varies by under 2%
+const TIMER_VARIATION = 0.02;
+
+/**
+ * A mouse parks on a button and clicks it without moving, so pixel-exact
+ * repeats are normal there. Only fingers and pens scatter; taps without a
+ * kind (pre-multi-touch shims) count as touch.
+ */
+function mostlyMouse(events: RawEventTuple[]): boolean {
+  let taps = 0;
+  let mouse = 0;
+  for (const ev of events) {
+    if (ev.e !== EventCode.DOWN) continue;
+    taps++;
+    if (ev.k === PointerKind.MOUSE) mouse++;
+  }
+  return mouse * 2 > taps;
+}
+
+const RULES: RiskRule[] = [
+  {
+    // Coefficient of variation under 5%: a timer, not a thumb
+    reason: RiskReason.REGULAR_INTERVALS,
+    weight: 35,
+    test: ({ sketch }) => sketch.counts.intervals >= MIN_INTERVALS &&
+      sketch.jitter !== null && sketch.jitter.intervalVariation < NEAR_ZERO,
+  },
+  {
+    reason: RiskReason.ZERO_INTERVAL_ENTROPY,
+    weight: 20,
+    test: ({ sketch }) => sketch.counts.intervals >= MIN_INTERVALS && sketch.entropy.pressIntervals === 0 &&
+      sketch.jitter !== null && sketch.jitter.intervalVariation < TIMER_VARIATION,
+  },
+  {
+    // Over 80% of presses less than 50ms apart, sustained
+    reason: RiskReason.INHUMAN_RATE,
+    weight: 20,
+    test: ({ sketch }) => sketch.counts.intervals >= 10 && sketch.pressIntervals[0] > 0.8,
+  },
+  {
+    reason: RiskReason.CONSTANT_HOLDS,
+    weight: 20,
+    test: ({ sketch }) => sketch.counts.holds >= MIN_TAPS &&
+      sketch.jitter !== null && sketch.jitter.holdVariation < NEAR_ZERO,
+  },
+  {
+    // Over half the taps on a pixel already hit this window (touch/pen)
+    reason: RiskReason.EXACT_REPEAT_TAPS,
+    weight: 25,
+    test: ({ sketch, events }) => sketch.counts.taps >= MIN_TAPS &&
+      sketch.targets !== null && sketch.targets.exactRepeatRatio > 0.5 && !mostlyMouse(events),
+  },
+  {
+    reason: RiskReason.NO_TARGET_DISPERSION,
+    weight: 15,
+    test: ({ sketch, events }) => sketch.targets !== null && sketch.targets.count > 0 &&
+      sketch.targets.dispersion === 0 && !mostlyMouse(events),
+  },
+  {
+    reason: RiskReason.PERFECT_SWIPES,
+    weight: 20,
+    test: ({ sketch: { trajectory: t } }) =>
+      t.strokeCount >= MIN_STROKES && t.straightness > 0.985 && t.speedVariation < NEAR_ZERO,
+  },
+  {
+    reason: RiskReason.OFFSCREEN_TAPS,
+    weight: 30,
+    test: ({ events, screenW, screenH }) => screenW > 0 && screenH > 0 && events.some(ev =>
+      ev.e === EventCode.DOWN && (ev.x < 0 || ev.y < 0 || ev.x > screenW || ev.y > screenH)
+    ),
+  },
+  {
+    reason: RiskReason.SYNTHETIC_EVENTS,
+    weight: 40,
+    test: ({ syntheticRatio }) => syntheticRatio > 0.1,
+  },
+];
+
+export function scoreRisk(input: RiskInput): RiskResult {
+  let score = 0;
+  const reasons: RiskReason[] = [];
+
+  for (const rule of RULES) {
+    if (rule.test(input)) {
+      score += rule.weight;
+      reasons.push(rule.reason);
+    }
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
@@ -0,0 +1,68 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { installCanvas, FakeContext2D } from '../test/canvas';
+import { CanvasRegistry } from '../security/CanvasRegistry';
+import { CanvasHandler } from '../security/CanvasHandler';
+import { SAMPLE_POINTS, sampleBitmap, seedFromNonce } from './sampling';
+
+const W = 320;
+const H = 240;
+
+/**
+ * Worker-side stand-in: an OffscreenCanvas whose drawImage copies the
+ * frame carried by a fake ImageBitmap.
+ */
+class FakeOffscreenCanvas {
+  constructor(readonly width: number, readonly height: number) {}
+
+  getContext(): FakeContext2D {
+    const ctx = new FakeContext2D(this as unknown as HTMLCanvasElement);
+    ctx.drawImage = ((bitmap: { frame: ReturnType<FakeContext2D['getImageData']> }) =>
+      ctx.putImageData(bitmap.frame, 0, 0)) as FakeContext2D['drawImage'];
+    return ctx;
+  }
+}
+
+describe('sampleBitmap', () => {
+  let handler: CanvasHandler;
+  let bitmap: ImageBitmap;
+
+  before(() => {
+    installDom();
+    installCanvas();
+    Object.defineProperty(globalThis, 'OffscreenCanvas', { value: FakeOffscreenCanvas, configurable: true });
+
+    // Every pixel distinct, so a block read at the wrong point shows
+    const canvas = document.createElement('canvas');
+    canvas.width = W;
+    canvas.height = H;
+    document.body.appendChild(canvas);
+    const game = canvas.getContext('2d') as unknown as FakeContext2D;
+    const frame = game.getImageData(0, 0, W, H);
+    for (let i = 0; i < W * H; i++) frame.data.set([i & 0xff, (i >> 8) & 0xff, (i * 7) & 0xff, 255], i * 4);
+    game.putImageData(frame, 0, 0);
+
+    const registry = new CanvasRegistry();
+    registry.set(canvas);
+    handler = new CanvasHandler(registry);
+    handler.start();
+    bitmap = { width: W, height: H, frame, close() {} } as unknown as ImageBitmap;
+  });
+
+  it('reads the same blocks as the shim for the same seed', () => {
+    for (const seed of [0, 7, seedFromNonce('0x' + 'ab'.repeat(32))]) {
+      const shim = handler.sampleRaw(seed);
+
+      assert.equal(shim?.length, SAMPLE_POINTS * 16);
+      assert.deepEqual(sampleBitmap(bitmap, seed), shim);
+    }
+  });
+
+  it('reads other blocks for another nonce', () => {
+    const a = sampleBitmap(bitmap, seedFromNonce('0x' + '01'.repeat(32)));
+    const b = sampleBitmap(bitmap, seedFromNonce('0x' + '02'.repeat(32)));
+
+    assert.notDeepEqual(a, b);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Canvas Sampling
+ *
+ * Seed-driven point selection shared by the SDK shim (CanvasHandler) and the
+ * Security Worker (ImageBitmap captures), so both produce the same bytes for
+ * the same frame and canvasHash stays comparable across capture modes.
+ *
+ * No crypto here - safe to import from the shim.
+ */
+
+import { PerceptualThumb, WatermarkRegion } from './types';
+
+/** Points per sample; each point is a 2x2 RGBA block (16 bytes) */
+export const SAMPLE_POINTS = 8;
+
+/**
+ * Simple PRNG from seed+index. Not crypto - just deterministic point selection.
+ */
+export function samplePrng(seed: number, index: number): number {
+  let h = seed ^ (index * 2654435761);
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Sampling seed for a window, from its server nonce (FNV-1a over the string).
+ * The points must not be known before the nonce is issued, or a bot could
+ * keep just those pixels honest.
+ */
+export function seedFromNonce(nonce: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < nonce.length; i++) {
+    h = Math.imul(h ^ nonce.charCodeAt(i), 16777619);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Top-left corner of the i-th 2x2 block for a w x h canvas.
+ */
+export function samplePoint(seed: number, index: number, w: number, h: number): { x: number; y: number } {
+  const pointSeed = samplePrng(seed, index);
+  return { x: pointSeed % w, y: Math.floor(pointSeed / w) % h };
+}
+
+/**
+ * Worker side of the bitmap capture mode: same blocks as CanvasHandler.sampleRaw,
+ * read from a transferred ImageBitmap. Null without OffscreenCanvas support.
+ */
+export function sampleBitmap(bitmap: ImageBitmap, seed: number): Uint8Array | null {
+  const w = bitmap.width;
+  const h = bitmap.height;
+  if (w === 0 || h === 0 || typeof OffscreenCanvas === 'undefined') return null;
+
+  const ctx = new OffscreenCanvas(w, h).getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, 0, 0);
+
+  const samples = new Uint8Array(SAMPLE_POINTS * 16);
+  for (let i = 0; i < SAMPLE_POINTS; i++) {
+    const { x, y } = samplePoint(seed, i, w, h);
+    samples.set(ctx.getImageData(x, y, 2, 2).data, i * 16);
+  }
+  return samples;
+}
+
+/**
+ * Worker side of CanvasHandler.thumbnail for bitmap captures.
+ */
+export function bitmapThumbnail(bitmap: ImageBitmap): Uint8Array | null {
+  if (bitmap.width === 0 || bitmap.height === 0 || typeof OffscreenCanvas === 'undefined') return null;
+
+  const ctx = new OffscreenCanvas(PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT).getContext('2d');
+  if (!ctx) return null;
+  ctx.imageSmoothingQuality = 'medium';
+  ctx.drawImage(bitmap, 0, 0, PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT);
+  return new Uint8Array(ctx.getImageData(0, 0, PerceptualThumb.WIDTH, PerceptualThumb.HEIGHT).data);
+}
+
+/**
+ * Worker side of CanvasHandler.readWatermarkRegion for bitmap captures.
+ */
+export function bitmapRegion(bitmap: ImageBitmap): Uint8Array | null {
+  if (bitmap.width === 0 || bitmap.height === 0 || typeof OffscreenCanvas === 'undefined') return null;
+
+  const { X, Y, WIDTH, HEIGHT } = WatermarkRegion;
+  const ctx = new OffscreenCanvas(WIDTH, HEIGHT).getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(bitmap, X, Y, WIDTH, HEIGHT, 0, 0, WIDTH, HEIGHT);
+  return new Uint8Array(ctx.getImageData(0, 0, WIDTH, HEIGHT).data);
+}
@@ -0,0 +1,86 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { installDom } from '../test/dom';
+import { captureTaps, type Tap } from '../test/input';
+import { SketchBuilder } from './SketchBuilder';
+import { decodeSketch, encodeSketch, sketchDistance } from './sketch';
+import { SketchVersion } from './types';
+
+const SCREEN_W = 800;
+const SCREEN_H = 600;
+
+const HUMAN: Tap[] = [
+  { t: 1000, x: 100, y: 200, hold: 70 },
+  { t: 1340, x: 112, y: 205, hold: 95 },
+  { t: 1610, x: 96, y: 190, hold: 82 },
+  { t: 2050, x: 105, y: 214, hold: 110 },
+  { t: 2260, x: 300, y: 400, hold: 64 },
+  { t: 2700, x: 108, y: 198, hold: 88 },
+];
+
+// The same player a window later: similar rhythm and targets
+const HUMAN_LATER: Tap[] = HUMAN.map((tap, i) => ({
+  t: tap.t + 5000 + i * 11, x: tap.x + (i % 2 ? 6 : -4), y: tap.y + 3, hold: (tap.hold ?? 80) + 6,
+}));
+
+const CLICKER: Tap[] = Array.from({ length: 10 }, (_, i) => ({ t: 1000 + i * 100, x: 200, y: 300, hold: 50 }));
+
+function sketchOf(taps: Tap[]): string {
+  const builder = new SketchBuilder();
+  builder.ingest(captureTaps(taps), SCREEN_W, SCREEN_H);
+  return builder.build();
+}
+
+before(() => {
+  installDom();
+});
+
+describe('sketch codec', () => {
+  it('re-encodes a decoded builder sketch to the same bytes', () => {
+    for (const taps of [HUMAN, CLICKER, []]) {
+      const hex = sketchOf(taps);
+      assert.equal(encodeSketch(decodeSketch(hex)), hex);
+    }
+  });
+
+  it('round-trips a V1 sketch without the V2 fields', () => {
+    const v1 = '0x' + sketchOf(HUMAN).slice(2).split('').map((c, i) => {
+      const byte = i >> 1;
+      return (byte >= 24 && byte < 40) || byte === 54 || byte === 63 ? '0' : c;
+    }).join('');
+    const features = decodeSketch(v1);
+
+    assert.equal(features.version, SketchVersion.V1);
+    assert.equal(features.holds, null);
+    assert.equal(features.jitter, null);
+    assert.equal(encodeSketch(features), v1);
+  });
+
+  it('rejects a sketch of the wrong size', () => {
+    assert.throws(() => decodeSketch('0x' + '00'.repeat(32)), /64 bytes/);
+  });
+});
+
+describe('sketchDistance', () => {
+  it('is 0 for the same sketch and symmetric', () => {
+    const human = sketchOf(HUMAN);
+    const clicker = sketchOf(CLICKER);
+
+    assert.equal(sketchDistance(human, human), 0);
+    assert.equal(sketchDistance(human, clicker), sketchDistance(clicker, human));
+  });
+
+  it('puts the same player closer than an auto-clicker', () => {
+    const human = sketchOf(HUMAN);
+    const later = sketchDistance(human, sketchOf(HUMAN_LATER));
+    const bot = sketchDistance(human, sketchOf(CLICKER));
+
+    assert.ok(later < bot, `same player ${later}, clicker ${bot}`);
+    assert.ok(bot > 0 && bot <= 1);
+  });
+
+  it('counts input only one side has as a full mismatch', () => {
+    assert.equal(sketchDistance(sketchOf([]), sketchOf([])), 0);
+    assert.equal(sketchDistance(sketchOf(HUMAN), sketchOf([])), 1);
+  });
+});
@@ -0,0 +1,370 @@
+/**
+ * Sketch Decoding & Similarity
+ *
+ * Turns the opaque 64-byte sketch hex from SketchBuilder.build() into named
+ * features, measures how alike two sketches are, and folds a session's
+ * per-window sketches into one profile. Shared by the Worker (risk scoring)
+ * and backend code (clustering accounts that run the same bot).
+ *
+ * Ratios are stored as 0..255 bytes and decoded back to 0..1, so decoding is
+ * lossy to 1/255 - encodeSketch(decodeSketch(hex)) round-trips exactly.
+ */
+
+import { bytesToHex, hexToBytes } from './crypto';
+import { SketchVersion } from './types';
+
+export interface SketchFeatures {
+  version: SketchVersion;
+  /** Histograms: share of values per bucket (0..1, sums to ~1 when counts > 0) */
+  pressIntervals: number[];
+  zones: number[];
+  velocities: number[];
+  /** V2 only (null in V1 sketches) */
+  holds: number[] | null;
+  jitter: {
+    intervalVariation: number;
+    /** -1..1, 0 = none */
+    intervalAutocorrelation: number;
+    holdVariation: number;
+  } | null;
+  targets: {
+    /** RMS spread as a share of the target radius */
+    dispersion: number;
+    exactRepeatRatio: number;
+    count: number;
+  } | null;
+  trajectory: {
+    speedProfile: number[];
+    straightness: number;
+    curvature: number;
+    speedVariation: number;
+    strokeCount: number;
+  };
+  entropy: {
+    pressIntervals: number;
+    zones: number;
+    velocity: number;
+    zoneUniformity: number;
+    keyClasses: number;
+    concurrentPressRatio: number;
+  };
+  counts: {
+    intervals: number;
+    velocities: number;
+    taps: number;
+    zonesUsed: number;
+    keyPresses: number;
+    keyClassesUsed: number;
+    maxConcurrent: number;
+    /** 0 in V1 sketches */
+    holds: number;
+  };
+}
+
+export interface SessionProfile {
+  /** Sketches aggregated */
+  windows: number;
+  /** Windows with any input */
+  activeWindows: number;
+  /** Evidence-weighted mean features; counts are session totals */
+  features: SketchFeatures;
+  /** features re-encoded as a V2 sketch - a compact clustering key */
+  sketch: string;
+}
+
+const SKETCH_BYTES = 64;
+
+// ============================================================
+// Decode / Encode
+// ============================================================
+
+export function decodeSketch(sketch: string | Uint8Array): SketchFeatures {
+  const b = typeof sketch === 'string' ? hexToBytes(sketch) : sketch;
+  if (b.length !== SKETCH_BYTES) {
+    throw new Error(`Sketch must be ${SKETCH_BYTES} bytes, got ${b.length}`);
+  }
+
+  const ratio = (i: number) => b[i] / 255;
+  const hist = (start: number) => Array.from(b.subarray(start, start + 8), v => v / 255);
+  const version = b[63] === 0 ? SketchVersion.V1 : b[63] as SketchVersion;
+  const v2 = version >= SketchVersion.V2;
+
+  return {
+    version,
+    pressIntervals: hist(0),
+    zones: hist(8),
+    velocities: hist(16),
+    holds: v2 ? hist(24) : null,
+    jitter: v2
+      ? {
+        intervalVariation: ratio(32),
+        intervalAutocorrelation: b[33] / 127.5 - 1,
+        holdVariation: ratio(36),
+      }
+      : null,
+    targets: v2
+      ? { dispersion: ratio(34), exactRepeatRatio: ratio(35), count: b[37] }
+      : null,
+    trajectory: {
+      speedProfile: [ratio(40), ratio(41), ratio(42), ratio(43)],
+      straightness: ratio(44),
+      curvature: ratio(45),
+      speedVariation: ratio(46),
+      strokeCount: b[47],
+    },
+    entropy: {
+      pressIntervals: ratio(48),
+      zones: ratio(49),
+      velocity: ratio(50),
+      zoneUniformity: ratio(51),
+      keyClasses: ratio(52),
+      concurrentPressRatio: ratio(53),
+    },
+    counts: {
+      intervals: b[56],
+      velocities: b[57],
+      taps: b[58],
+      zonesUsed: b[59],
+      keyPresses: b[60],
+      keyClassesUsed: b[61],
+      maxConcurrent: b[62],
+      holds: b[54],
+    },
+  };
+}
+
+/**
+ * Inverse of decodeSketch. V1 features encode without bytes 24-39, 54 and 63.
+ */
+export function encodeSketch(f: SketchFeatures): string {
+  const b = new Uint8Array(SKETCH_BYTES);
+  const byte = (v: number) => Math.max(0, Math.min(Math.round(v * 255), 255));
+  const count = (v: number) => Math.max(0, Math.min(Math.round(v), 255));
+  const hist = (values: number[], start: number) => values.forEach((v, i) => { b[start + i] = byte(v); });
+
+  hist(f.pressIntervals, 0);
+  hist(f.zones, 8);
+  hist(f.velocities, 16);
+  if (f.holds) hist(f.holds, 24);
+  if (f.jitter) {
+    b[32] = byte(f.jitter.intervalVariation);
+    b[33] = Math.max(0, Math.min(Math.round((f.jitter.intervalAutocorrelation + 1) * 127.5), 255));
+    b[36] = byte(f.jitter.holdVariation);
+  }
+  if (f.targets) {
+    b[34] = byte(f.targets.dispersion);
+    b[35] = byte(f.targets.exactRepeatRatio);
+    b[37] = count(f.targets.count);
+  }
+
+  hist(f.trajectory.speedProfile, 40);
+  b[44] = byte(f.trajectory.straightness);
+  b[45] = byte(f.trajectory.curvature);
+  b[46] = byte(f.trajectory.speedVariation);
+  b[47] = count(f.trajectory.strokeCount);
+
+  b[48] = byte(f.entropy.pressIntervals);
+  b[49] = byte(f.entropy.zones);
+  b[50] = byte(f.entropy.velocity);
+  b[51] = byte(f.entropy.zoneUniformity);
+  b[52] = byte(f.entropy.keyClasses);
+  b[53] = byte(f.entropy.concurrentPressRatio);
+
+  b[56] = count(f.counts.intervals);
+  b[57] = count(f.counts.velocities);
+  b[58] = count(f.counts.taps);
+  b[59] = count(f.counts.zonesUsed);
+  b[60] = count(f.counts.keyPresses);
+  b[61] = count(f.counts.keyClassesUsed);
+  b[62] = count(f.counts.maxConcurrent);
+  if (f.version >= SketchVersion.V2) {
+    b[54] = count(f.counts.holds);
+    b[63] = f.version;
+  }
+
+  return bytesToHex(b);
+}
+
+// ============================================================
+// Similarity
+// ============================================================
+
+/**
+ * Behavioral distance, 0 (identical) to 1 (nothing in common).
+ *
+ * Mean of per-component distances over the components both sketches have
+ * evidence for: total variation distance for histograms, mean absolute
+ * difference for scalar groups. A component only one side has evidence for
+ * counts as 1. V2-only components are skipped against V1 sketches.
+ */
+export function sketchDistance(a: SketchFeatures | string, b: SketchFeatures | string): number {
+  const fa = typeof a === 'string' ? decodeSketch(a) : a;
+  const fb = typeof b === 'string' ? decodeSketch(b) : b;
+  const parts: number[] = [];
+
+  const add = (hasA: boolean, hasB: boolean, distance: () => number) => {
+    if (hasA && hasB) parts.push(distance());
+    else if (hasA !== hasB) parts.push(1);
+  };
+
+  const bothJitter = fa.jitter !== null && fb.jitter !== null;
+  add(fa.counts.intervals > 0, fb.counts.intervals > 0, () =>
+    histDistance(fa.pressIntervals, fb.pressIntervals) * 0.5 +
+    meanAbs(
+      [fa.entropy.pressIntervals, ...(bothJitter ? jitterOf(fa) : [])],
+      [fb.entropy.pressIntervals, ...(bothJitter ? jitterOf(fb) : [])]
+    ) * 0.5
+  );
+  add(fa.counts.taps > 0, fb.counts.taps > 0, () =>
+    histDistance(fa.zones, fb.zones) * 0.5 +
+    meanAbs(
+      [fa.entropy.zones, fa.entropy.zoneUniformity, fa.entropy.concurrentPressRatio],
+      [fb.entropy.zones, fb.entropy.zoneUniformity, fb.entropy.concurrentPressRatio]
+    ) * 0.5
+  );
+  add(fa.counts.velocities > 0, fb.counts.velocities > 0, () =>
+    histDistance(fa.velocities, fb.velocities)
+  );
+  add(fa.trajectory.strokeCount > 0, fb.trajectory.strokeCount > 0, () =>
+    meanAbs(trajectoryOf(fa), trajectoryOf(fb))
+  );
+  add(fa.counts.keyPresses > 0, fb.counts.keyPresses > 0, () =>
+    Math.abs(fa.entropy.keyClasses - fb.entropy.keyClasses)
+  );
+
+  if (fa.holds && fb.holds) {
+    add(fa.counts.holds > 0, fb.counts.holds > 0, () =>
+      histDistance(fa.holds!, fb.holds!) * 0.5 +
+      Math.abs(fa.jitter!.holdVariation - fb.jitter!.holdVariation) * 0.5
+    );
+  }
+  if (fa.targets && fb.targets) {
+    add(fa.counts.taps > 0, fb.counts.taps > 0, () =>
+      meanAbs(
+        [fa.targets!.dispersion, fa.targets!.exactRepeatRatio],
+        [fb.targets!.dispersion, fb.targets!.exactRepeatRatio]
+      )
+    );
+  }
+
+  return parts.length > 0 ? parts.reduce((x, y) => x + y, 0) / parts.length : 0;
+}
+
+// ============================================================
+// Session Profile
+// ============================================================
+
+/**
+ * Fold per-window sketches into one session profile. Each feature is
+ * averaged over the windows that measured it, weighted by how much evidence
+ * each window had (e.g. interval features by interval count).
+ */
+export function buildSessionProfile(sketches: (string | Uint8Array)[]): SessionProfile {
+  const windows = sketches.map(decodeSketch);
+  const v2 = windows.filter(w => w.holds !== null);
+  const sum = (pick: (w: SketchFeatures) => number, from = windows) =>
+    from.reduce((acc, w) => acc + pick(w), 0);
+  const max = (pick: (w: SketchFeatures) => number) =>
+    windows.reduce((acc, w) => Math.max(acc, pick(w)), 0);
+
+  // Evidence-weighted means of a scalar / histogram feature
+  const avg = (pick: (w: SketchFeatures) => number, weight: (w: SketchFeatures) => number, from = windows) => {
+    const total = sum(weight, from);
+    return total > 0 ? from.reduce((acc, w) => acc + pick(w) * weight(w), 0) / total : 0;
+  };
+  const avgHist = (pick: (w: SketchFeatures) => number[], weight: (w: SketchFeatures) => number, from = windows) =>
+    pick(from[0] ?? EMPTY).map((_, i) => avg(w => pick(w)[i], weight, from));
+
+  const intervals = (w: SketchFeatures) => w.counts.intervals;
+  const taps = (w: SketchFeatures) => w.counts.taps;
+  const strokes = (w: SketchFeatures) => w.trajectory.strokeCount;
+  const holds = (w: SketchFeatures) => w.counts.holds;
+
+  const features: SketchFeatures = {
+    version: v2.length > 0 ? SketchVersion.V2 : SketchVersion.V1,
+    pressIntervals: avgHist(w => w.pressIntervals, intervals),
+    zones: avgHist(w => w.zones, taps),
+    velocities: avgHist(w => w.velocities, w => w.counts.velocities),
+    holds: v2.length > 0 ? avgHist(w => w.holds!, holds, v2) : null,
+    jitter: v2.length > 0
+      ? {
+        intervalVariation: avg(w => w.jitter!.intervalVariation, intervals, v2),
+        intervalAutocorrelation: avg(w => w.jitter!.intervalAutocorrelation, intervals, v2),
+        holdVariation: avg(w => w.jitter!.holdVariation, holds, v2),
+      }
+      : null,
+    targets: v2.length > 0
+      ? {
+        dispersion: avg(w => w.targets!.dispersion, w => w.targets!.count, v2),
+        exactRepeatRatio: avg(w => w.targets!.exactRepeatRatio, taps, v2),
+        count: sum(w => w.targets!.count, v2),
+      }
+      : null,
+    trajectory: {
+      speedProfile: avgHist(w => w.trajectory.speedProfile, strokes),
+      straightness: avg(w => w.trajectory.straightness, strokes),
+      curvature: avg(w => w.trajectory.curvature, strokes),
+      speedVariation: avg(w => w.trajectory.speedVariation, strokes),
+      strokeCount: sum(strokes),
+    },
+    entropy: {
+      pressIntervals: avg(w => w.entropy.pressIntervals, intervals),
+      zones: avg(w => w.entropy.zones, taps),
+      velocity: avg(w => w.entropy.velocity, w => w.counts.velocities),
+      zoneUniformity: avg(w => w.entropy.zoneUniformity, taps),
+      keyClasses: avg(w => w.entropy.keyClasses, w => w.counts.keyPresses),
+      concurrentPressRatio: avg(w => w.entropy.concurrentPressRatio, taps),
+    },
+    counts: {
+      intervals: sum(intervals),
+      velocities: sum(w => w.counts.velocities),
+      taps: sum(taps),
+      zonesUsed: max(w => w.counts.zonesUsed),
+      keyPresses: sum(w => w.counts.keyPresses),
+      keyClassesUsed: max(w => w.counts.keyClassesUsed),
+      maxConcurrent: max(w => w.counts.maxConcurrent),
+      holds: sum(holds),
+    },
+  };
+
+  return {
+    windows: windows.length,
+    activeWindows: windows.filter(w =>
+      w.counts.taps + w.counts.keyPresses + w.counts.intervals + w.trajectory.strokeCount > 0
+    ).length,
+    features,
+    sketch: encodeSketch(features),
+  };
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const EMPTY = decodeSketch(new Uint8Array(SKETCH_BYTES));
+
+/**
+ * Total variation distance between two normalized histograms (0..1).
+ */
+function histDistance(a: number[], b: number[]): number {
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += Math.abs(a[i] - b[i]);
+  return Math.min(d / 2, 1);
+}
+
+function meanAbs(a: number[], b: number[]): number {
+  if (a.length === 0) return 0;
+  let d = 0;
+  for (let i = 0; i < a.length; i++) d += Math.abs(a[i] - b[i]);
+  return d / a.length;
+}
+
+function jitterOf(f: SketchFeatures): number[] {
+  // Autocorrelation mapped to 0..1 so every term shares the same scale
+  return [f.jitter!.intervalVariation, (f.jitter!.intervalAutocorrelation + 1) / 2];
+}
+
+function trajectoryOf(f: SketchFeatures): number[] {
+  const t = f.trajectory;
+  return [...t.speedProfile, t.straightness, t.curvature, t.speedVariation];
+}
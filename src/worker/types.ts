@@ -6,22 +6,281 @@
  * All crypto runs inside the Worker (separate thread, untouchable by game iframe).
  */
 
+// ============================================================
+// Protocol Negotiation (shim ↔ GameBox ↔ Worker)
+// ============================================================
+
+/**
+ * Protocol versions. V1 is everything that predates negotiation: messages
+ * without a protocolVersion field.
+ */
+export const ProtocolVersion = {
+  V1: 1,
+  V2: 2,
+} as const;
+
+export type ProtocolVersion = typeof ProtocolVersion[keyof typeof ProtocolVersion];
+
+/**
+ * Features a party can declare. The shim declares input, canvas and Streamr
+ * features; the Worker declares what it can compute. Unknown strings from a
+ * newer party are dropped by negotiate().
+ */
+export const Capability = {
+  INPUT_POINTER: 'input.pointer',
+  INPUT_MULTITOUCH: 'input.multitouch',
+  INPUT_KEYBOARD: 'input.keyboard',
+  INPUT_GAMEPAD: 'input.gamepad',
+  /** readPixels sampling of WebGL canvases at frame end */
+  CANVAS_WEBGL: 'canvas.webgl',
+  /** PerceptualThumb captures (shim) / perceptual hashing (Worker) */
+  CANVAS_THUMB: 'canvas.thumb',
+  /** ImageBitmap capture mode (shim) / bitmap sampling (Worker) */
+  CANVAS_BITMAP: 'canvas.bitmap',
+  /** Embedding (shim) / issuing and decoding (Worker) */
+  WATERMARK: 'watermark',
+  STREAMR: 'streamr',
+  /** Development builds only */
+  REPLAY: 'replay',
+  DIGEST_V2: 'digest.v2',
+  RISK: 'risk',
+  SCORE_RULES: 'score.rules',
+  TRANSCRIPT: 'transcript',
+  /** Shim echoes requestId/windowIndex and answers repeated requestIds from its cache */
+  REQUEST_ID: 'request.id',
+  /** Shim moves to a MessagePort transferred with SDK_SESSION_INIT */
+  CHANNEL: 'channel',
+} as const;
+
+export type Capability = typeof Capability[keyof typeof Capability];
+
+/**
+ * What one party declares, and also the shape of an agreement.
+ */
+export interface ProtocolHello {
+  protocolVersion: number;
+  capabilities: Capability[];
+}
+
 // ============================================================
 // Compact Event Tuple (from SDK shim → GameBox → Worker)
 // ============================================================
 
 /**
- * Compact input event: [timestamp, x, y, eventType]
+ * Compact input event: [timestamp, x, y, eventType, pointerId, pointerKind]
  * - t: performance.now() timestamp (ms)
- * - x: clientX (raw pixels)
- * - y: clientY (raw pixels)
- * - e: 1 = tap/touchstart/mousedown, 0 = release/touchend/mouseup
+ * - x: clientX (raw pixels), or KeyClass for keyboard events
+ * - y: clientY (raw pixels), 0 for keyboard events
+ * - e: EventCode
+ * - p: pointerId / Touch.identifier, or the held-key slot for keyboard events
+ *   (absent from pre-multi-touch shims)
+ * - k: PointerKind (absent from pre-multi-touch shims and keyboard events)
+ * - u: 1 if the DOM event was script-dispatched (isTrusted === false), absent otherwise
  */
 export interface RawEventTuple {
   t: number;
   x: number;
   y: number;
   e: number;
+  p?: number;
+  k?: number;
+  u?: number;
+}
+
+/**
+ * Tuple event codes (RawEventTuple.e).
+ */
+export const EventCode = {
+  /** release/touchend/mouseup/pointerup */
+  UP: 0,
+  /** tap/touchstart/mousedown/pointerdown */
+  DOWN: 1,
+  KEY_DOWN: 2,
+  KEY_UP: 3,
+  /** pointermove/touchmove/mousemove while pressed (decimated) */
+  MOVE: 4,
+  /** Gamepad button pressed: x = button index, y = analog value */
+  PAD_BUTTON_DOWN: 5,
+  /** Gamepad button released: x = button index, y = 0 */
+  PAD_BUTTON_UP: 6,
+  /** Gamepad axis changed: x = axis index, y = quantized value (-1..1) */
+  PAD_AXIS: 7,
+} as const;
+
+/**
+ * Pointer kinds (RawEventTuple.k). Gamepad tuples use GAMEPAD with p = Gamepad.index.
+ */
+export const PointerKind = {
+  UNKNOWN: 0,
+  MOUSE: 1,
+  TOUCH: 2,
+  PEN: 3,
+  GAMEPAD: 4,
+} as const;
+
+/**
+ * Input digest encodings (see computeInputDigest).
+ * V1: 20-byte stride {t,x,y,e} - sessions recorded before multi-touch support.
+ * V2: 24-byte stride {t,x,y,e,k,u,p}.
+ */
+export const InputDigestVersion = {
+  V1: 1,
+  V2: 2,
+} as const;
+
+export type InputDigestVersion = typeof InputDigestVersion[keyof typeof InputDigestVersion];
+
+/**
+ * Privacy-safe key classes (RawEventTuple.x for keyboard events).
+ * Game control keys stay distinct; anything that could spell text
+ * collapses into a single class per kind.
+ */
+export const KeyClass = {
+  OTHER: 0,
+  ARROW_LEFT: 1,
+  ARROW_UP: 2,
+  ARROW_RIGHT: 3,
+  ARROW_DOWN: 4,
+  SPACE: 5,
+  ENTER: 6,
+  ESCAPE: 7,
+  LETTER: 8,
+  DIGIT: 9,
+  MODIFIER: 10,
+} as const;
+
+/**
+ * Behavioral sketch layouts (byte 63 of the sketch). V1 sketches predate the
+ * marker and carry 0 there.
+ */
+export const SketchVersion = {
+  V1: 1,
+  V2: 2,
+} as const;
+
+export type SketchVersion = typeof SketchVersion[keyof typeof SketchVersion];
+
+/**
+ * Reasons reported with a window's risk score (see risk.ts for thresholds).
+ */
+export const RiskReason = {
+  /** Press intervals vary by less than 5% */
+  REGULAR_INTERVALS: 'regular_intervals',
+  /** All press intervals fall in one entropy bucket and vary by less than 2% */
+  ZERO_INTERVAL_ENTROPY: 'zero_interval_entropy',
+  /** Sustained presses under 50ms apart */
+  INHUMAN_RATE: 'inhuman_rate',
+  /** Hold durations vary by less than 5% */
+  CONSTANT_HOLDS: 'constant_holds',
+  /** Most taps land on a pixel already hit (touch/pen windows only) */
+  EXACT_REPEAT_TAPS: 'exact_repeat_taps',
+  /** Repeated targets hit with zero spread (touch/pen windows only) */
+  NO_TARGET_DISPERSION: 'no_target_dispersion',
+  /** Straight, constant-speed swipes */
+  PERFECT_SWIPES: 'perfect_swipes',
+  /** Taps outside the reported viewport */
+  OFFSCREEN_TAPS: 'offscreen_taps',
+  /** More than 10% script-dispatched events */
+  SYNTHETIC_EVENTS: 'synthetic_events',
+} as const;
+
+export type RiskReason = typeof RiskReason[keyof typeof RiskReason];
+
+// ============================================================
+// Score Plausibility
+// ============================================================
+
+/**
+ * Per-game score rules passed at INIT_SESSION. Every rule is optional;
+ * rate rules need PROCESS_CHECKPOINT.ts and are skipped without it.
+ */
+export interface ScoreRules {
+  /** Max score gained per second since the previous checkpoint (or session start) */
+  maxScorePerSecond?: number;
+  /** Score never decreases within the session */
+  monotonic?: boolean;
+  /** Every score is a multiple of this (e.g. 10 for a game that only awards 10s) */
+  scoreStep?: number;
+  /** Max levels gained per second since the previous checkpoint */
+  maxLevelPerSecond?: number;
+}
+
+/**
+ * ScoreRules violations, as a bitmask (see plausibility.ts).
+ */
+export const ScoreFlag = {
+  /** Score went down under a monotonic rule */
+  DECREASED: 1,
+  /** Score grew faster than maxScorePerSecond */
+  SCORE_RATE: 2,
+  /** Score is not a multiple of scoreStep */
+  OFF_STEP: 4,
+  /** Level grew faster than maxLevelPerSecond */
+  LEVEL_RATE: 8,
+} as const;
+
+/**
+ * What a session with ScoreRules chains per window besides the score: the
+ * flags and the level and ts they were derived from. Without level and ts in
+ * the hash, GameBox could rewrite timestamps to clear the rate rules.
+ */
+export interface ChainedScore {
+  flags: number;
+  level?: number;
+  ts?: number;
+}
+
+// ============================================================
+// Perceptual Canvas Fingerprint
+// ============================================================
+
+/**
+ * Downscaled canvas capture sent with each checkpoint (RGBA, row-major).
+ * 9 columns give dHash 8 horizontal gradients per row.
+ */
+export const PerceptualThumb = {
+  WIDTH: 9,
+  HEIGHT: 8,
+} as const;
+
+/**
+ * 64-bit perceptual hashes of the thumbnail, as 0x-prefixed hex.
+ * Compare with hammingDistance: a few bits apart means the same picture.
+ */
+export interface PerceptualHash {
+  /** Difference hash: each bit = left pixel brighter than its right neighbour */
+  dHash: string;
+  /** Average hash: each bit = cell brighter than the thumbnail mean */
+  aHash: string;
+}
+
+// ============================================================
+// Canvas Watermark
+// ============================================================
+
+/**
+ * Canvas area the watermark bits are written to: one bit per pixel, blue LSB,
+ * row-major from the top-left, MSB of each byte first.
+ */
+export const WatermarkRegion = {
+  X: 0,
+  Y: 0,
+  WIDTH: 64,
+  HEIGHT: 8,
+} as const;
+
+/**
+ * Watermark read back from a checkpoint capture. The shim writes the payload
+ * and reads the region in one callback, so this shows the captured canvas
+ * took the write - not that the frame reached a viewer unaltered.
+ */
+export interface WatermarkCheck {
+  /** The last payload issued by CREATE_WATERMARK read back intact from the canvas the shim wrote it to */
+  writable: boolean;
+  /** Decoded payload after error correction (0x-prefixed hex) */
+  payload: string;
+  /** Raw region bits that differ from the issued encoding; null if none issued */
+  bitErrors: number | null;
 }
 
 // ============================================================
@@ -34,6 +293,12 @@ export interface WorkerInitSession {
   screenW: number;
   screenH: number;
   ts: number;
+  /** Opt-in: retain every checkpoint for EXPORT_TRANSCRIPT */
+  record?: boolean;
+  /** Input digest encoding for this session (default V1) */
+  inputDigestVersion?: InputDigestVersion;
+  /** Score plausibility rules; when set, violation flags join the rolling hash */
+  scoreRules?: ScoreRules;
 }
 
 export interface WorkerProcessCheckpoint {
@@ -41,8 +306,20 @@ export interface WorkerProcessCheckpoint {
   windowIndex: number;
   nonceW: string;
   score: number;
+  /** Current game level, for ScoreRules.maxLevelPerSecond */
+  level?: number;
+  /** GameBox Date.now() when the capture arrived, for the ScoreRules rate rules */
+  ts?: number;
   events: RawEventTuple[];
   pixels: Uint8Array | null;
+  /** PerceptualThumb RGBA capture (absent from older shims) */
+  thumb?: Uint8Array | null;
+  /** Bitmap capture mode: whole frame, sampled here instead of pixels/thumb (transfer it) */
+  bitmap?: ImageBitmap;
+  /** Sampling seed sent in SDK_CHECKPOINT_REQUEST; required with bitmap */
+  seed?: number;
+  /** WatermarkRegion RGBA capture, when GameBox asked for it */
+  watermark?: Uint8Array | null;
   screenW: number;
   screenH: number;
 }
@@ -51,22 +328,50 @@ export interface WorkerComputeFinalHash {
   type: 'COMPUTE_FINAL_HASH';
   sessionId: string;
   finalScore: number;
+  level?: number;
+  ts?: number;
+}
+
+export interface WorkerExportTranscript {
+  type: 'EXPORT_TRANSCRIPT';
+}
+
+export interface WorkerCreateWatermark {
+  type: 'CREATE_WATERMARK';
 }
 
 export interface WorkerReset {
   type: 'RESET';
 }
 
+/**
+ * GameBox's offer; answered with NEGOTIATED. Optional - a Worker that was
+ * never asked behaves as before.
+ */
+export interface WorkerNegotiate extends ProtocolHello {
+  type: 'NEGOTIATE';
+}
+
 export type WorkerInboundMessage =
+  | WorkerNegotiate
   | WorkerInitSession
   | WorkerProcessCheckpoint
   | WorkerComputeFinalHash
+  | WorkerExportTranscript
+  | WorkerCreateWatermark
   | WorkerReset;
 
 // ============================================================
 // Worker Outbound Messages (Worker → GameBox)
 // ============================================================
 
+/**
+ * The agreement: lower of both versions, intersection of capabilities.
+ */
+export interface WorkerNegotiated extends ProtocolHello {
+  type: 'NEGOTIATED';
+}
+
 export interface WorkerSessionReady {
   type: 'SESSION_READY';
   initialHash: string;
@@ -77,9 +382,22 @@ export interface WorkerCheckpointResult {
   windowIndex: number;
   inputDigest: string;
   canvasHash: string;
+  /** Advisory, not part of the rolling hash; null without a thumbnail */
+  perceptualHash: PerceptualHash | null;
+  /** Advisory, not part of the rolling hash; null without a region capture */
+  watermark: WatermarkCheck | null;
   rollingHash: string;
   sketch: string;
   eventCount: number;
+  inputDigestVersion: InputDigestVersion;
+  /** Share of this window's events that were script-dispatched (0..1) */
+  syntheticRatio: number;
+  /** Advisory bot risk for this window, 0 (clean) to 100 */
+  riskScore: number;
+  /** Rules that contributed to riskScore */
+  riskReasons: RiskReason[];
+  /** ScoreFlag bits for this window's score; in the rolling hash when ScoreRules are set */
+  scoreFlags: number;
 }
 
 export interface WorkerFinalHashResult {
@@ -87,6 +405,29 @@ export interface WorkerFinalHashResult {
   finalHash: string;
   rollingHash: string;
   totalWindows: number;
+  /** ScoreFlag bits of every window plus the final score; in finalHash when ScoreRules are set */
+  scoreFlags: number;
+  /** Windows with any ScoreFlag set */
+  flaggedWindows: number;
+}
+
+export interface WorkerTranscriptResult {
+  type: 'TRANSCRIPT_RESULT';
+  format: 'ndjson';
+  version: number;
+  transcript: string;
+  /** Windows kept in the transcript */
+  totalWindows: number;
+  /** First window not kept because the transcript hit its size cap, or null */
+  truncatedAt: number | null;
+}
+
+export interface WorkerWatermarkData {
+  type: 'WATERMARK_DATA';
+  /** Encoded bits for SDK_CHECKPOINT_REQUEST.watermarkData (or SDK_CANVAS_EMBED_REQUEST.data) */
+  data: Uint8Array;
+  /** The payload checkpoints will look for (0x-prefixed hex) */
+  payload: string;
 }
 
 export interface WorkerError {
@@ -96,7 +437,84 @@ export interface WorkerError {
 }
 
 export type WorkerOutboundMessage =
+  | WorkerNegotiated
   | WorkerSessionReady
   | WorkerCheckpointResult
   | WorkerFinalHashResult
+  | WorkerTranscriptResult
+  | WorkerWatermarkData
   | WorkerError;
+
+// ============================================================
+// Chain Verification (server-side, see verifier.ts)
+// ============================================================
+
+/**
+ * Session parameters as passed to INIT_SESSION.
+ */
+export interface ChainSessionInit {
+  sessionId: string;
+  screenW: number;
+  screenH: number;
+  ts: number;
+  inputDigestVersion?: InputDigestVersion;
+  scoreRules?: ScoreRules;
+}
+
+/**
+ * One checkpoint window as recorded for the session.
+ * Raw inputs are required; the claimed hashes are optional and, when present,
+ * are compared against the recomputed values.
+ */
+export interface ChainCheckpointRecord {
+  windowIndex?: number;
+  nonceW: string;
+  score: number;
+  level?: number;
+  ts?: number;
+  events: RawEventTuple[];
+  pixels: Uint8Array | number[] | null;
+  screenW?: number;
+  screenH?: number;
+  inputDigest?: string;
+  canvasHash?: string;
+  rollingHash?: string;
+}
+
+export interface ChainFinal {
+  finalScore: number;
+  level?: number;
+  ts?: number;
+  finalHash?: string;
+}
+
+export interface ChainWindowResult {
+  windowIndex: number;
+  inputDigest: string;
+  canvasHash: string;
+  rollingHash: string;
+  scoreFlags: number;
+}
+
+/** 'windowIndex': the record at this position claims another window */
+export type ChainField = 'windowIndex' | 'inputDigest' | 'canvasHash' | 'rollingHash' | 'finalHash';
+
+export interface ChainDivergence {
+  windowIndex: number;
+  field: ChainField;
+  /** The record's claimed value */
+  expected: string;
+  /** The recomputed value (for windowIndex: the record's position) */
+  actual: string;
+}
+
+export interface ChainVerificationResult {
+  valid: boolean;
+  initialHash: string;
+  windows: ChainWindowResult[];
+  rollingHash: string;
+  finalHash: string | null;
+  /** ScoreFlag bits across the replayed windows (and final score, if given) */
+  scoreFlags: number;
+  divergence: ChainDivergence | null;
+}
@@ -0,0 +1,149 @@
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { startWorker, workerRequest } from '../test/worker';
+import { verifyChain } from './verifier';
+import { InputDigestVersion, ScoreFlag } from './types';
+import type { ChainCheckpointRecord, ChainFinal, ChainSessionInit } from './types';
+
+const INIT: ChainSessionInit = {
+  sessionId: 'verifier-session',
+  screenW: 390,
+  screenH: 844,
+  ts: 1700000000000,
+  inputDigestVersion: InputDigestVersion.V2,
+};
+
+const WINDOWS = [
+  { score: 10, events: [{ t: 10, x: 100, y: 200, e: 0, p: 1, k: 2 }, { t: 90, x: 100, y: 200, e: 2, p: 1, k: 2 }] },
+  { score: 25, events: [{ t: 1200, x: 40, y: 60, e: 0, p: 1, k: 2 }] },
+  { score: 40, events: [] },
+];
+
+// One in-process Worker per file; each describe starts its own session on it
+let worker: Worker;
+
+before(async () => {
+  worker = await startWorker();
+});
+
+describe('verifyChain', () => {
+  let records: ChainCheckpointRecord[];
+  let final: ChainFinal;
+
+  // Claims come from the real Worker, as GameBox would submit them
+  before(async () => {
+    await workerRequest(worker, { type: 'INIT_SESSION', ...INIT }, 'SESSION_READY');
+
+    records = [];
+    for (const [windowIndex, window] of WINDOWS.entries()) {
+      const record = {
+        windowIndex,
+        nonceW: '0x' + String(windowIndex + 1).repeat(64),
+        score: window.score,
+        level: 1,
+        ts: INIT.ts + (windowIndex + 1) * 5000,
+        events: window.events,
+        pixels: Uint8Array.from([windowIndex, 1, 2, 255]),
+        screenW: INIT.screenW,
+        screenH: INIT.screenH,
+      };
+      const result = await workerRequest(worker, { type: 'PROCESS_CHECKPOINT', ...record }, 'CHECKPOINT_RESULT');
+      records.push({
+        ...record,
+        inputDigest: result.inputDigest,
+        canvasHash: result.canvasHash,
+        rollingHash: result.rollingHash,
+      });
+    }
+
+    const finalMsg = { sessionId: INIT.sessionId, finalScore: 50, level: 1, ts: INIT.ts + 20000 };
+    const result = await workerRequest(worker, { type: 'COMPUTE_FINAL_HASH', ...finalMsg }, 'FINAL_HASH_RESULT');
+    final = { finalScore: finalMsg.finalScore, level: finalMsg.level, ts: finalMsg.ts, finalHash: result.finalHash };
+  });
+
+  it('accepts the chain the Worker built', () => {
+    const result = verifyChain(INIT, records, final);
+
+    assert.equal(result.valid, true);
+    assert.equal(result.divergence, null);
+    assert.equal(result.windows.length, WINDOWS.length);
+    assert.equal(result.finalHash, final.finalHash);
+  });
+
+  it('reports a tampered score at its window', () => {
+    const tampered = records.map((r, i) => i === 1 ? { ...r, score: 9999 } : r);
+    const { valid, divergence } = verifyChain(INIT, tampered, final);
+
+    assert.equal(valid, false);
+    assert.equal(divergence?.windowIndex, 1);
+    assert.equal(divergence?.field, 'rollingHash');
+  });
+
+  it('reports a claimed digest that does not match the events', () => {
+    const tampered = records.map((r, i) => i === 2 ? { ...r, inputDigest: '0x' + '0'.repeat(64) } : r);
+    const { divergence } = verifyChain(INIT, tampered, final);
+
+    assert.deepEqual(
+      { windowIndex: divergence?.windowIndex, field: divergence?.field, expected: divergence?.expected },
+      { windowIndex: 2, field: 'inputDigest', expected: '0x' + '0'.repeat(64) }
+    );
+  });
+
+  it('reports a missing window as a divergence instead of throwing', () => {
+    const { valid, divergence, windows } = verifyChain(INIT, [records[0], records[2]], final);
+
+    assert.equal(valid, false);
+    assert.deepEqual(divergence, { windowIndex: 1, field: 'windowIndex', expected: '2', actual: '1' });
+    assert.equal(windows.length, 1);
+  });
+
+  it('reports a final hash that does not match the chain', () => {
+    const { valid, divergence } = verifyChain(INIT, records, { ...final, finalScore: 51 });
+
+    assert.equal(valid, false);
+    assert.equal(divergence?.windowIndex, records.length);
+    assert.equal(divergence?.field, 'finalHash');
+  });
+});
+
+describe('verifyChain with score rules', () => {
+  const init: ChainSessionInit = { ...INIT, sessionId: 'rules-session', scoreRules: { maxScorePerSecond: 10 } };
+  let records: ChainCheckpointRecord[];
+
+  before(async () => {
+    await workerRequest(worker, { type: 'INIT_SESSION', ...init }, 'SESSION_READY');
+
+    // 60 points in 5s: over the rate
+    const record = {
+      windowIndex: 0,
+      nonceW: '0x' + '7'.repeat(64),
+      score: 60,
+      level: 1,
+      ts: init.ts + 5000,
+      events: [],
+      pixels: null,
+      screenW: init.screenW,
+      screenH: init.screenH,
+    };
+    const result = await workerRequest(worker, { type: 'PROCESS_CHECKPOINT', ...record }, 'CHECKPOINT_RESULT');
+    assert.equal(result.scoreFlags, ScoreFlag.SCORE_RATE);
+    records = [{ ...record, rollingHash: result.rollingHash }];
+  });
+
+  it('accepts the flagged window as the Worker chained it', () => {
+    const { valid, scoreFlags } = verifyChain(init, records);
+
+    assert.equal(valid, true);
+    assert.equal(scoreFlags, ScoreFlag.SCORE_RATE);
+  });
+
+  it('reports a rewritten ts, even one that yields the same flags', () => {
+    for (const ts of [init.ts + 60000, init.ts + 5500]) {
+      const { valid, divergence } = verifyChain(init, [{ ...records[0], ts }]);
+
+      assert.equal(valid, false);
+      assert.equal(divergence?.field, 'rollingHash');
+    }
+  });
+});
+
@@ -0,0 +1,124 @@
+/**
+ * Chain Verifier (Server-side)
+ *
+ * Recomputes the rolling hash chain from a session's raw checkpoint inputs.
+ * Uses the exact same crypto.ts functions as the Security Worker, so a backend
+ * can verify a submitted rollingHash/finalHash instead of trusting GameBox.
+ *
+ * No DOM or Worker APIs - safe to import from Node (e.g. via tsx).
+ */
+
+import type {
+  ChainSessionInit,
+  ChainCheckpointRecord,
+  ChainFinal,
+  ChainWindowResult,
+  ChainDivergence,
+  ChainField,
+  ChainVerificationResult,
+} from './types';
+
+import {
+  computeInitialHash,
+  computeRollingHash,
+  computeInputDigest,
+  computeCanvasHash,
+  computeFinalHash,
+} from './crypto';
+
+import { checkScore, advanceScorePoint } from './plausibility';
+import type { ScorePoint } from './plausibility';
+
+/**
+ * Replay the chain window by window and stop at the first claimed value that
+ * does not match its recomputed counterpart. Windows are processed in the
+ * order given; a record whose windowIndex (if set) is not its position - a
+ * gap, a duplicate, a reordered record - is a divergence at that position.
+ * A finalHash divergence is reported with windowIndex = records.length.
+ * With init.scoreRules, score flags are recomputed from the records' score,
+ * level and ts and chained, with the level and ts, exactly as the Worker does.
+ */
+export function verifyChain(
+  init: ChainSessionInit,
+  records: ChainCheckpointRecord[],
+  final?: ChainFinal
+): ChainVerificationResult {
+  const initialHash = computeInitialHash(init.sessionId, init.screenW, init.screenH, init.ts);
+  const windows: ChainWindowResult[] = [];
+  let rollingHash = initialHash;
+  const rules = init.scoreRules;
+  let lastScore: ScorePoint = { score: 0, level: 0, ts: init.ts };
+  let scoreFlags = 0;
+
+  let finalHash: string | null = null;
+
+  const fail = (divergence: ChainDivergence): ChainVerificationResult => ({
+    valid: false,
+    initialHash,
+    windows,
+    rollingHash,
+    finalHash,
+    scoreFlags,
+    divergence,
+  });
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+
+    if (record.windowIndex !== undefined && record.windowIndex !== i) {
+      return fail({ windowIndex: i, field: 'windowIndex', expected: String(record.windowIndex), actual: String(i) });
+    }
+
+    const inputDigest = computeInputDigest(record.events, init.inputDigestVersion);
+    const canvasHash = computeCanvasHash(toBytes(record.pixels));
+    const point: ScorePoint = { score: record.score, level: record.level, ts: record.ts };
+    const windowFlags = rules ? checkScore(rules, lastScore, point) : 0;
+    lastScore = advanceScorePoint(lastScore, point);
+    scoreFlags |= windowFlags;
+
+    rollingHash = computeRollingHash(
+      rollingHash, record.nonceW, inputDigest, canvasHash, record.score,
+      rules ? { flags: windowFlags, level: record.level, ts: record.ts } : undefined
+    );
+
+    windows.push({ windowIndex: i, inputDigest, canvasHash, rollingHash, scoreFlags: windowFlags });
+
+    const mismatch =
+      compare(i, 'inputDigest', record.inputDigest, inputDigest) ??
+      compare(i, 'canvasHash', record.canvasHash, canvasHash) ??
+      compare(i, 'rollingHash', record.rollingHash, rollingHash);
+    if (mismatch) return fail(mismatch);
+  }
+
+  if (final) {
+    if (rules) {
+      scoreFlags |= checkScore(rules, lastScore, { score: final.finalScore, level: final.level, ts: final.ts });
+    }
+    finalHash = computeFinalHash(
+      init.sessionId, rollingHash, final.finalScore,
+      rules ? { flags: scoreFlags, level: final.level, ts: final.ts } : undefined
+    );
+    const mismatch = compare(records.length, 'finalHash', final.finalHash, finalHash);
+    if (mismatch) return fail(mismatch);
+  }
+
+  return { valid: true, initialHash, windows, rollingHash, finalHash, scoreFlags, divergence: null };
+}
+
+function compare(
+  windowIndex: number,
+  field: ChainField,
+  expected: string | undefined,
+  actual: string
+): ChainDivergence | null {
+  if (expected === undefined || expected.toLowerCase() === actual) return null;
+  return { windowIndex, field, expected, actual };
+}
+
+/**
+ * Transcripts stored as JSON carry pixels as plain number arrays.
+ */
+function toBytes(pixels: Uint8Array | number[] | null): Uint8Array | null {
+  if (pixels === null) return null;
+  return pixels instanceof Uint8Array ? pixels : Uint8Array.from(pixels);
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { bytesToHex } from './crypto';
+import { decodeWatermark, encodeWatermark, verifyWatermark, WATERMARK_PAYLOAD_BYTES } from './watermark';
+import { WatermarkRegion } from './types';
+
+const PAYLOAD = new Uint8Array([0xde, 0xad, 0xbe, 0xef, 0x01, 0x23, 0x45, 0x67]);
+const COPY_BITS = WATERMARK_PAYLOAD_BYTES * 2 * 7;
+
+/**
+ * Region RGBA as the shim captures it: one bit per pixel in the blue LSB.
+ * `flips` are bit positions within a copy, flipped in every copy so the
+ * majority vote can't fix them and Hamming has to.
+ */
+function region(payload: Uint8Array, flips: number[] = []): Uint8Array {
+  const encoded = encodeWatermark(payload);
+  const rgba = new Uint8Array(WatermarkRegion.WIDTH * WatermarkRegion.HEIGHT * 4).fill(200);
+  for (let i = 0; i < encoded.length * 8; i++) {
+    let bit = (encoded[i >> 3] >> (7 - (i & 7))) & 1;
+    if (flips.includes(i % COPY_BITS)) bit ^= 1;
+    rgba[i * 4 + 2] = (rgba[i * 4 + 2] & 0xfe) | bit;
+  }
+  return rgba;
+}
+
+describe('watermark codec', () => {
+  it('round-trips the payload', () => {
+    assert.deepEqual(decodeWatermark(region(PAYLOAD)), PAYLOAD);
+    assert.deepEqual(verifyWatermark(region(PAYLOAD), PAYLOAD), {
+      writable: true, payload: bytesToHex(PAYLOAD), bitErrors: 0,
+    });
+  });
+
+  it('corrects one flipped bit in every codeword, in every copy', () => {
+    // A different position in each of the 16 codewords covers all 7
+    const flips = Array.from({ length: COPY_BITS / 7 }, (_, block) => block * 7 + (block % 7));
+    const check = verifyWatermark(region(PAYLOAD, flips), PAYLOAD);
+
+    assert.equal(check?.writable, true);
+    assert.equal(check?.bitErrors, flips.length * 4);
+  });
+
+  it('does not find a payload with two flips in one codeword', () => {
+    const check = verifyWatermark(region(PAYLOAD, [0, 3]), PAYLOAD);
+
+    assert.equal(check?.writable, false);
+  });
+
+  it('reports a different payload as not written, with what it read', () => {
+    const other = PAYLOAD.map(b => b ^ 0x5a);
+    const check = verifyWatermark(region(other), PAYLOAD);
+
+    assert.equal(check?.writable, false);
+    assert.equal(check?.payload, bytesToHex(other));
+    assert.ok((check?.bitErrors ?? 0) > 0);
+  });
+
+  it('returns null for a capture of the wrong size', () => {
+    assert.equal(decodeWatermark(new Uint8Array(64)), null);
+    assert.equal(verifyWatermark(new Uint8Array(64), PAYLOAD), null);
+    assert.equal(verifyWatermark(null, PAYLOAD), null);
+  });
+});
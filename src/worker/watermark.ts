@@ -0,0 +1,129 @@
+/**
+ * Canvas Watermark Codec
+ *
+ * Encodes a 64-bit payload for CanvasHandler.embedWatermark and reads it back
+ * from a WatermarkRegion capture. A single lossy frame (video encoding, scaling,
+ * dithering) flips scattered LSBs, so the payload is protected twice:
+ *   - Hamming(7,4) per nibble: corrects one flipped bit per 7-bit codeword
+ *   - 4 sequential copies, majority vote per bit: survives a damaged copy
+ *
+ * 16 codewords x 7 bits x 4 copies = 448 bits = 56 bytes (region holds 512).
+ *
+ * The game usually repaints the region every frame, so the shim writes the
+ * payload and reads the region back in the same capture callback
+ * (SDK_CHECKPOINT_REQUEST.watermarkData). A separate embed does not survive
+ * until a later checkpoint. The check is therefore a canvas-writable check:
+ * it says the captured canvas is one the shim can write to, not that frames
+ * seen elsewhere were rendered through the SDK.
+ */
+
+import { bytesToHex, keccak256Raw } from './crypto';
+import type { WatermarkCheck } from './types';
+import { WatermarkRegion } from './types';
+
+export const WATERMARK_PAYLOAD_BYTES = 8;
+
+const COPIES = 4;
+const CODEWORD_BITS = 7;
+const COPY_BITS = WATERMARK_PAYLOAD_BYTES * 2 * CODEWORD_BITS;
+const TOTAL_BITS = COPY_BITS * COPIES;
+const REGION_PIXELS = WatermarkRegion.WIDTH * WatermarkRegion.HEIGHT;
+
+/**
+ * Payload bound to the chain position it was issued at. The game iframe
+ * never sees the rolling hash, so it can't predict the next payload.
+ */
+export function deriveWatermarkPayload(rollingHash: string, counter: number): Uint8Array {
+  const digest = keccak256Raw(new TextEncoder().encode(`${rollingHash}|wm|${counter}`));
+  return digest.slice(0, WATERMARK_PAYLOAD_BYTES);
+}
+
+/**
+ * Payload → bytes for SDK_CHECKPOINT_REQUEST.watermarkData / SDK_CANVAS_EMBED_REQUEST
+ * (MSB first, one bit per pixel).
+ */
+export function encodeWatermark(payload: Uint8Array): Uint8Array {
+  const copy: number[] = [];
+  for (const byte of payload) {
+    copy.push(...hammingEncode(byte >> 4), ...hammingEncode(byte & 0x0f));
+  }
+
+  const out = new Uint8Array(TOTAL_BITS / 8);
+  for (let i = 0; i < TOTAL_BITS; i++) {
+    if (copy[i % COPY_BITS]) out[i >> 3] |= 0x80 >> (i & 7);
+  }
+  return out;
+}
+
+/**
+ * Region RGBA → corrected payload, or null if the capture has the wrong size.
+ */
+export function decodeWatermark(region: Uint8Array): Uint8Array | null {
+  const bits = readBits(region);
+  if (!bits) return null;
+
+  const voted: number[] = [];
+  for (let i = 0; i < COPY_BITS; i++) {
+    let ones = 0;
+    for (let c = 0; c < COPIES; c++) ones += bits[c * COPY_BITS + i];
+    // 2-2 ties go to 0; Hamming corrects it if that was wrong
+    voted.push(ones > COPIES / 2 ? 1 : 0);
+  }
+
+  const payload = new Uint8Array(WATERMARK_PAYLOAD_BYTES);
+  for (let b = 0; b < WATERMARK_PAYLOAD_BYTES; b++) {
+    const hi = hammingDecode(voted.slice((2 * b) * CODEWORD_BITS, (2 * b + 1) * CODEWORD_BITS));
+    const lo = hammingDecode(voted.slice((2 * b + 1) * CODEWORD_BITS, (2 * b + 2) * CODEWORD_BITS));
+    payload[b] = (hi << 4) | lo;
+  }
+  return payload;
+}
+
+/**
+ * Checkpoint field: decode the region and compare it with the issued payload.
+ */
+export function verifyWatermark(region: Uint8Array | null | undefined, expected: Uint8Array | null): WatermarkCheck | null {
+  if (!region) return null;
+  const decoded = decodeWatermark(region);
+  if (!decoded) return null;
+
+  const payload = bytesToHex(decoded);
+  if (!expected) return { writable: false, payload, bitErrors: null };
+
+  const bits = readBits(region)!;
+  const encoded = encodeWatermark(expected);
+  let bitErrors = 0;
+  for (let i = 0; i < TOTAL_BITS; i++) {
+    if (bits[i] !== ((encoded[i >> 3] >> (7 - (i & 7))) & 1)) bitErrors++;
+  }
+
+  return { writable: payload === bytesToHex(expected), payload, bitErrors };
+}
+
+function readBits(region: Uint8Array): number[] | null {
+  if (region.length !== REGION_PIXELS * 4) return null;
+  const bits: number[] = [];
+  for (let i = 0; i < TOTAL_BITS; i++) bits.push(region[i * 4 + 2] & 1);
+  return bits;
+}
+
+/**
+ * Nibble → [p1, p2, d1, p3, d2, d3, d4]
+ */
+function hammingEncode(nibble: number): number[] {
+  const d1 = (nibble >> 3) & 1;
+  const d2 = (nibble >> 2) & 1;
+  const d3 = (nibble >> 1) & 1;
+  const d4 = nibble & 1;
+  return [d1 ^ d2 ^ d4, d1 ^ d3 ^ d4, d1, d2 ^ d3 ^ d4, d2, d3, d4];
+}
+
+function hammingDecode(code: number[]): number {
+  const c = code.slice();
+  const s1 = c[0] ^ c[2] ^ c[4] ^ c[6];
+  const s2 = c[1] ^ c[2] ^ c[5] ^ c[6];
+  const s3 = c[3] ^ c[4] ^ c[5] ^ c[6];
+  const syndrome = s1 | (s2 << 1) | (s3 << 2);
+  if (syndrome) c[syndrome - 1] ^= 1;
+  return (c[2] << 3) | (c[4] << 2) | (c[5] << 1) | c[6];
+}
@@ -1,4 +1,6 @@
+require('dotenv/config');
 const path = require('path');
+const webpack = require('webpack');
 const TerserPlugin = require('terser-webpack-plugin');
 const WebpackObfuscator = require('webpack-obfuscator');
 
@@ -24,8 +26,30 @@ const terserOptions = {
   ecma: 2020,
 };
 
+// ============================================================
+// Environment profiles (--env profile=production|staging|local)
+// One source for the shim's allowed GameBox origins and its domain lock.
+// The origin grant public key comes from ORIGIN_GRANT_PUBLIC_KEY at build
+// time; production builds refuse to go out without one.
+// ============================================================
+const environments = require('./src/config/environments.json');
+
+function selectEnvironment(env, isProduction) {
+  const name = env.profile || (isProduction ? 'production' : 'local');
+  const profile = environments[name];
+  if (!profile) {
+    throw new Error(`Unknown environment profile "${name}" (expected: ${Object.keys(environments).join(', ')})`);
+  }
+  const originGrantKey = process.env.ORIGIN_GRANT_PUBLIC_KEY || profile.originGrantKey;
+  if (name === 'production' && !originGrantKey) {
+    throw new Error('Missing env var: ORIGIN_GRANT_PUBLIC_KEY (required for the production profile)');
+  }
+  return { name, ...profile, originGrantKey: originGrantKey || null };
+}
+
 module.exports = (env, argv) => {
   const isProduction = argv.mode === 'production';
+  const environment = selectEnvironment(env, isProduction);
 
   // ============================================================
   // SDK Shim (runs inside game iframe, domain-locked)
@@ -56,51 +80,48 @@ module.exports = (env, argv) => {
         new TerserPlugin({ terserOptions, extractComments: false }),
       ],
     },
-    plugins: isProduction
-      ? [
-          new WebpackObfuscator(
-            {
-              stringArray: true,
-              stringArrayThreshold: 0.8,
-              stringArrayEncoding: ['base64'],
-              stringArrayWrappersCount: 1,
-              stringArrayWrappersType: 'variable',
-              rotateStringArray: true,
-              shuffleStringArray: true,
-              splitStrings: false,
-              controlFlowFlattening: false,
-              deadCodeInjection: false,
-              identifierNamesGenerator: 'hexadecimal',
-              renameGlobals: true,
-              renameProperties: false,
-              selfDefending: false,
-              debugProtection: false,
-              disableConsoleOutput: true,
-              domainLock: [
-                '.wam.app',
-                'win.wam.app',
-                'play.wam.app',
-                'game.digitap.eu',
-                'game.wam.app',
-                'files.digitap.eu',
-                '*.wam.app',
-                '*.digitap.eu',
-                'digitap.eu',
-                'localhost',
-                '127.0.0.1',
-              ],
-              domainLockRedirectUrl: 'about:blank',
-              numbersToExpressions: false,
-              transformObjectKeys: false,
-              unicodeEscapeSequence: false,
-              compact: true,
-              simplify: true,
-              target: 'browser',
-            },
-            []
-          ),
-        ]
-      : [],
+    plugins: [
+      new webpack.DefinePlugin({
+        __SDK_ENVIRONMENT__: JSON.stringify({
+          name: environment.name,
+          origins: environment.origins,
+          originGrantKey: environment.originGrantKey,
+        }),
+      }),
+      ...(isProduction
+        ? [
+            new WebpackObfuscator(
+              {
+                stringArray: true,
+                stringArrayThreshold: 0.8,
+                stringArrayEncoding: ['base64'],
+                stringArrayWrappersCount: 1,
+                stringArrayWrappersType: 'variable',
+                rotateStringArray: true,
+                shuffleStringArray: true,
+                splitStrings: false,
+                controlFlowFlattening: false,
+                deadCodeInjection: false,
+                identifierNamesGenerator: 'hexadecimal',
+                renameGlobals: true,
+                renameProperties: false,
+                selfDefending: false,
+                debugProtection: false,
+                disableConsoleOutput: true,
+                domainLock: environment.domainLock,
+                domainLockRedirectUrl: 'about:blank',
+                numbersToExpressions: false,
+                transformObjectKeys: false,
+                unicodeEscapeSequence: false,
+                compact: true,
+                simplify: true,
+                target: 'browser',
+              },
+              []
+            ),
+          ]
+        : []),
+    ],
   };
 
   // ============================================================
@@ -168,5 +189,32 @@ module.exports = (env, argv) => {
       : [],
   };
 
-  return [sdkConfig, workerConfig];
+  // ============================================================
+  // Local GameBox Harness (development only - npm run harness)
+  // ============================================================
+  const harnessConfig = {
+    name: 'harness',
+    entry: './src/harness/index.ts',
+    devtool: 'source-map',
+    module: {
+      rules: [
+        {
+          test: /\.tsx?$/,
+          use: 'ts-loader',
+          exclude: /node_modules/,
+        },
+      ],
+    },
+    resolve: {
+      extensions: ['.tsx', '.ts', '.js'],
+    },
+    output: {
+      filename: 'harness.js',
+      path: path.resolve(__dirname, 'dist'),
+    },
+  };
+
+  return isProduction
+    ? [sdkConfig, workerConfig]
+    : [sdkConfig, workerConfig, harnessConfig];
 };